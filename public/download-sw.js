@@ -0,0 +1,63 @@
+// Service worker that turns a stream of chunks posted from the page into a file download,
+// so large archives can be saved without building them in memory first.
+
+const downloads = new Map();
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type !== "register-download") return;
+
+  const port = event.ports[0];
+  // Chunks enqueued but not yet read by the browser; each is acknowledged once read, so the
+  // page's limit on chunks in flight also bounds what waits here
+  let unread = 0;
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data: message }) => {
+          if (message.type === "chunk") {
+            controller.enqueue(message.chunk);
+            unread++;
+          } else if (message.type === "close") {
+            controller.close();
+          } else if (message.type === "abort") {
+            controller.error(new Error("Download aborted"));
+          }
+        };
+      },
+      // Called only once the queue is below its high-water mark of one, i.e. everything enqueued has been read
+      pull() {
+        for (; unread > 0; unread--) port.postMessage({ type: "ack" });
+      },
+      cancel() {
+        port.postMessage({ type: "cancelled" });
+      },
+    },
+    { highWaterMark: 1 }
+  );
+
+  const id = data.id;
+  downloads.set(id, { stream, fileName: data.fileName });
+  port.postMessage({ type: "ready", url: new URL(`__download__/${id}`, self.registration.scope).href });
+});
+
+self.addEventListener("fetch", (event) => {
+  const match = new URL(event.request.url).pathname.match(/__download__\/([^/]+)$/);
+  if (!match) return;
+
+  const download = downloads.get(match[1]);
+  if (!download) return;
+  downloads.delete(match[1]);
+
+  event.respondWith(
+    new Response(download.stream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+      },
+    })
+  );
+});
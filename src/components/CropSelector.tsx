@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { formatTimecode } from "@/lib/timecode";
+import {
+  applyCropAspect,
+  clampCrop,
+  CROP_ASPECT_PRESETS,
+  cropFromDrag,
+  fromPixelCrop,
+  toPixelCrop,
+  type CropRect,
+} from "@/lib/crop";
+
+interface CropSelectorProps {
+  videoUrl: string;
+  /** Upright frame size in pixels */
+  width: number;
+  height: number;
+  crop: CropRect | null;
+  onChange: (crop: CropRect | null) => void;
+  disabled?: boolean;
+}
+
+interface Drag {
+  mode: "draw" | "move";
+  start: { x: number; y: number };
+  origin: CropRect | null;
+  moved: boolean;
+}
+
+// Preview height cap, matching the time range preview (max-h-80)
+const PREVIEW_MAX_HEIGHT_REM = 20;
+// Drags shorter than this (fraction of the frame) are clicks and leave the crop alone
+const MIN_DRAG = 0.01;
+
+// Pixel field that only commits on blur/Enter, so partial input isn't clamped while typing
+const PixelInput = ({
+  id,
+  value,
+  onCommit,
+  disabled,
+}: {
+  id: string;
+  value: number;
+  onCommit: (pixels: number) => void;
+  disabled?: boolean;
+}) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const pixels = Number(text);
+    if (text.trim() === "" || !Number.isFinite(pixels)) {
+      setText(String(value));
+      return;
+    }
+    onCommit(Math.round(pixels));
+  };
+
+  return (
+    <Input
+      id={id}
+      dir="ltr"
+      type="number"
+      value={text}
+      disabled={disabled}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="font-mono text-center"
+    />
+  );
+};
+
+const CropSelector = ({ videoUrl, width, height, crop, onChange, disabled }: CropSelectorProps) => {
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const pixels = toPixelCrop(crop ?? { x: 0, y: 0, width: 1, height: 1 }, width, height);
+
+  const getPoint = (event: React.PointerEvent) => {
+    const box = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - box.left) / box.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - box.top) / box.height)),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (disabled) return;
+    const point = getPoint(event);
+    const inside = crop &&
+      point.x >= crop.x && point.x <= crop.x + crop.width &&
+      point.y >= crop.y && point.y <= crop.y + crop.height;
+    dragRef.current = { mode: inside ? "move" : "draw", start: point, origin: crop, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = getPoint(event);
+    drag.moved ||= Math.abs(point.x - drag.start.x) > MIN_DRAG || Math.abs(point.y - drag.start.y) > MIN_DRAG;
+    if (!drag.moved) return;
+    if (drag.mode === "move" && drag.origin) {
+      onChange(clampCrop({
+        ...drag.origin,
+        x: drag.origin.x + point.x - drag.start.x,
+        y: drag.origin.y + point.y - drag.start.y,
+      }));
+    } else {
+      onChange(cropFromDrag(drag.start, point, width, height, aspect ?? undefined));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const selectAspect = (ratio: number | null) => {
+    setAspect(ratio);
+    if (ratio) onChange(applyCropAspect(crop, ratio, width, height));
+  };
+
+  const setPixels = (changes: Partial<CropRect>) =>
+    onChange(fromPixelCrop({ ...pixels, ...changes }, width, height));
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="relative w-full mx-auto overflow-hidden rounded-lg bg-black"
+        style={{ aspectRatio: `${width} / ${height}`, maxWidth: `${(PREVIEW_MAX_HEIGHT_REM * width) / height}rem` }}
+      >
+        <video
+          ref={previewRef}
+          src={videoUrl}
+          className="absolute inset-0 w-full h-full"
+          playsInline
+          muted
+          preload="metadata"
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+        <div
+          ref={overlayRef}
+          className={`absolute inset-0 touch-none ${disabled ? "" : "cursor-crosshair"}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {crop && (
+            <div
+              className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div dir="ltr" className="flex items-center gap-3">
+        <Slider
+          value={[currentTime]}
+          onValueChange={([time]) => {
+            if (previewRef.current) previewRef.current.currentTime = time;
+            setCurrentTime(time);
+          }}
+          min={0}
+          max={duration || 1}
+          step={0.01}
+          className="settings-slider flex-1"
+        />
+        <span className="text-sm font-mono text-muted-foreground">{formatTimecode(currentTime)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant={aspect === null ? "default" : "outline"} size="sm" onClick={() => selectAspect(null)} disabled={disabled}>
+          חופשי
+        </Button>
+        {CROP_ASPECT_PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            variant={aspect === preset.ratio ? "default" : "outline"}
+            size="sm"
+            onClick={() => selectAspect(preset.ratio)}
+            disabled={disabled}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)} disabled={disabled || !crop}>
+          ללא חיתוך
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="crop-x">X</Label>
+          <PixelInput id="crop-x" value={pixels.x} onCommit={(x) => setPixels({ x })} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="crop-y">Y</Label>
+          <PixelInput id="crop-y" value={pixels.y} onCommit={(y) => setPixels({ y })} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="crop-width">רוחב</Label>
+          <PixelInput id="crop-width" value={pixels.width} onCommit={(w) => setPixels({ width: w })} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="crop-height">גובה</Label>
+          <PixelInput id="crop-height" value={pixels.height} onCommit={(h) => setPixels({ height: h })} disabled={disabled} />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {crop
+          ? `יחולץ האזור ${pixels.width}×${pixels.height} בלבד; הרזולוציה נקבעת ביחס לאזור החתוך`
+          : "גררו על התמונה כדי לסמן אזור, או הזינו מידות בפיקסלים"}
+      </p>
+    </div>
+  );
+};
+
+export default CropSelector;
@@ -0,0 +1,144 @@
+import { useMemo } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { analyzeGop, downsampleByMax, type FrameType } from "@/lib/gop-analysis";
+import type { MediaSample } from "@/lib/sample-table";
+
+interface GopChartsProps {
+  samples: MediaSample[];
+  timescale: number;
+}
+
+const MAX_CHART_POINTS = 400;
+
+const FRAME_COLORS: Record<FrameType, string> = {
+  I: "hsl(0 84% 60%)",
+  P: "hsl(var(--primary))",
+  B: "hsl(38 92% 50%)",
+};
+
+const frameSizeConfig = {
+  size: { label: "גודל (KB)" },
+} satisfies ChartConfig;
+
+const gopConfig = {
+  length: { label: "פריימים", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const bitrateConfig = {
+  kbps: { label: "kb/s", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const GopCharts = ({ samples, timescale }: GopChartsProps) => {
+  const analysis = useMemo(() => analyzeGop(samples, timescale, MAX_CHART_POINTS), [samples, timescale]);
+
+  const frameData = useMemo(
+    () =>
+      downsampleByMax(analysis.frames, MAX_CHART_POINTS, (frame) => frame.size).map((frame) => ({
+        ...frame,
+        kb: Math.round(frame.size / 100) / 10,
+      })),
+    [analysis]
+  );
+  const gopData = useMemo(() => downsampleByMax(analysis.gops, MAX_CHART_POINTS, (gop) => gop.length), [analysis]);
+
+  if (analysis.frames.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="info-stat">
+          <p className="text-muted-foreground">מבנה GOP</p>
+          <p className="font-mono font-semibold break-all">{analysis.pattern}</p>
+        </div>
+        <div className="info-stat">
+          <p className="text-muted-foreground">אורך GOP ממוצע / מקסימלי</p>
+          <p className="font-semibold">
+            {analysis.averageGopLength} / {analysis.maxGopLength}
+          </p>
+        </div>
+        <div className="info-stat">
+          <p className="text-muted-foreground">פריימי B</p>
+          <p className="font-semibold">{analysis.hasBFrames ? "כן" : "לא"}</p>
+        </div>
+        <div className="info-stat">
+          <p className="text-muted-foreground">קצב סיביות שיא</p>
+          <p className="font-semibold">{analysis.peakKbps.toLocaleString()} kb/s</p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="md:col-span-2">
+          <div className="flex items-center gap-3 text-sm text-muted-foreground mb-1">
+            <span>גודל כל פריים</span>
+            {(Object.keys(FRAME_COLORS) as FrameType[]).map((type) => (
+              <span key={type} className="inline-flex items-center gap-1 font-mono">
+                <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: FRAME_COLORS[type] }} />
+                {type}
+              </span>
+            ))}
+          </div>
+          <ChartContainer config={frameSizeConfig} className="h-40 w-full aspect-auto">
+            <BarChart data={frameData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickFormatter={formatSeconds} minTickGap={40} />
+              <YAxis width={40} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const frame = payload[0]?.payload;
+                      return frame ? `#${frame.index} ${frame.type} @ ${formatSeconds(frame.time)}` : "";
+                    }}
+                  />
+                }
+              />
+              <Bar dataKey="kb" name="size" isAnimationActive={false}>
+                {frameData.map((frame) => (
+                  <Cell key={frame.index} fill={FRAME_COLORS[frame.type]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">אורך כל GOP</p>
+          <ChartContainer config={gopConfig} className="h-40 w-full aspect-auto">
+            <BarChart data={gopData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickFormatter={formatSeconds} minTickGap={40} />
+              <YAxis width={40} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(payload[0]?.payload.time ?? 0)} />} />
+              <Bar dataKey="length" fill="var(--color-length)" isAnimationActive={false} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">קצב סיביות מתגלגל (חלון של שנייה)</p>
+          <ChartContainer config={bitrateConfig} className="h-40 w-full aspect-auto">
+            <AreaChart data={analysis.bitrate}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickFormatter={formatSeconds} minTickGap={40} />
+              <YAxis width={48} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(payload[0]?.payload.time ?? 0)} />} />
+              <Area
+                dataKey="kbps"
+                type="monotone"
+                stroke="var(--color-kbps)"
+                fill="var(--color-kbps)"
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GopCharts;
@@ -0,0 +1,446 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, Film, Loader2, Search, Upload, Video, X } from "lucide-react";
+import { Link } from "react-router-dom";
+import { getBoxTree, sliceBox, type BoxNode } from "@/lib/box-tree";
+import { decodeDecoderConfig, type ConfigSection } from "@/lib/codec-config";
+import { getParsedVideoDecoderConfig, parseMedia, type MediaInfo, type ParsedMedia } from "@/lib/media-probe";
+import { getVideoDecoderCodec } from "@/lib/mp4-demux";
+import type { MediaSample } from "@/lib/sample-table";
+import { canDemuxVideo } from "@/lib/video-decoder";
+
+// mp4box samples also carry their decode time; WebM blocks only have presentation times
+type InspectedSample = MediaSample & { dts?: number };
+
+interface WebCodecsStatus {
+  supported: boolean;
+  codec?: string;
+  reason?: string;
+}
+
+interface Inspection {
+  mediaInfo: MediaInfo;
+  /** Null for WebM/Matroska, which has no ISO-BMFF boxes */
+  boxes: BoxNode[] | null;
+  configs: { trackId: number; codec: string; sections: ConfigSection[] }[];
+  webCodecs: WebCodecsStatus;
+}
+
+const SAMPLES_PER_PAGE = 100;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Mirrors the checks the extractor makes before choosing WebCodecs over the legacy <video> path
+const checkWebCodecs = async (file: File, parsed: ParsedMedia): Promise<WebCodecsStatus> => {
+  if (!("VideoDecoder" in window)) return { supported: false, reason: "הדפדפן לא תומך ב-WebCodecs API" };
+  if (!canDemuxVideo(file)) return { supported: false, reason: "רק קבצי MP4 ו-WebM עוברים דרך WebCodecs" };
+  try {
+    const config = await getParsedVideoDecoderConfig(file, parsed);
+    const { supported } = await VideoDecoder.isConfigSupported(config);
+    return supported
+      ? { supported: true, codec: config.codec }
+      : { supported: false, codec: config.codec, reason: `המפענח של הדפדפן לא תומך ב-${config.codec}` };
+  } catch (error) {
+    return { supported: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// The file is parsed once; the box tree and decoder configs come from the same parse as the probe
+const inspectFile = async (file: File): Promise<Inspection> => {
+  const parsed = await parseMedia(file);
+  const mediaInfo = parsed.info;
+  const webCodecs = await checkWebCodecs(file, parsed);
+
+  if (parsed.container === "webm") return { mediaInfo, boxes: null, configs: [], webCodecs };
+
+  const { mp4boxFile, movie } = parsed;
+  const configs = movie.videoTracks.flatMap((track) => {
+    const { codec, description } = getVideoDecoderCodec(mp4boxFile, track);
+    return description ? [{ trackId: track.id, codec, sections: decodeDecoderConfig(codec, description) }] : [];
+  });
+  return {
+    mediaInfo,
+    boxes: getBoxTree(mp4boxFile),
+    configs,
+    webCodecs,
+  };
+};
+
+const BoxTreeItem = ({ box, depth, onDownload }: { box: BoxNode; depth: number; onDownload: (box: BoxNode) => void }) => {
+  const [open, setOpen] = useState(box.type === "moov");
+  const expandable = box.fields.length > 0 || box.children.length > 0;
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-2 py-1 pe-2 rounded hover:bg-muted/50 cursor-pointer"
+        style={{ paddingLeft: depth * 16 + 8 }}
+        onClick={() => expandable && setOpen(!open)}
+      >
+        {expandable ? (
+          open ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <span className="font-mono font-semibold">{box.type}</span>
+        <span className="text-xs text-muted-foreground font-mono">
+          @{box.start.toLocaleString()} · {formatBytes(box.size)}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 ml-auto"
+          title="הורד את הקופסה כבתים גולמיים"
+          onClick={(event) => {
+            event.stopPropagation();
+            onDownload(box);
+          }}
+        >
+          <Download className="w-3 h-3" />
+        </Button>
+      </div>
+      {open && (
+        <>
+          {box.fields.length > 0 && (
+            <dl className="py-1 space-y-0.5 text-xs font-mono" style={{ paddingLeft: depth * 16 + 32 }}>
+              {box.fields.map((field) => (
+                <div key={field.name} className="flex gap-2">
+                  <dt className="text-muted-foreground shrink-0">{field.name}</dt>
+                  <dd className="break-all">{field.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {box.children.map((child) => (
+            <BoxTreeItem key={`${child.type}@${child.start}`} box={child} depth={depth + 1} onDownload={onDownload} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+const MediaInspector = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [inspection, setInspection] = useState<Inspection | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null);
+  const [samplePage, setSamplePage] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFile = async (selected: File) => {
+    setFile(selected);
+    setInspection(null);
+    setError("");
+    setIsInspecting(true);
+    try {
+      const result = await inspectFile(selected);
+      setInspection(result);
+      setSelectedTrackId(result.mediaInfo.tracks[0]?.id ?? null);
+      setSamplePage(0);
+    } catch (err) {
+      setError(`לא ניתן לנתח את הקובץ: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsInspecting(false);
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) loadFile(selected);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const selected = event.dataTransfer.files[0];
+    if (selected) loadFile(selected);
+  };
+
+  const reset = () => {
+    setFile(null);
+    setInspection(null);
+    setError("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const downloadBox = (box: BoxNode) => {
+    if (!file) return;
+    const url = URL.createObjectURL(sliceBox(file, box));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${file.name.split(".")[0]}_${box.type.trim()}_${box.start}.bin`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selectedTrack = inspection?.mediaInfo.tracks.find((track) => track.id === selectedTrackId);
+  const selectedSamples: InspectedSample[] = selectedTrack?.samples ?? [];
+  const pageCount = Math.max(1, Math.ceil(selectedSamples.length / SAMPLES_PER_PAGE));
+  const pageSamples = selectedSamples.slice(samplePage * SAMPLES_PER_PAGE, (samplePage + 1) * SAMPLES_PER_PAGE);
+  const toSeconds = (ticks: number) => (selectedTrack ? (ticks / selectedTrack.timescale).toFixed(3) : "");
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground">בודק מדיה</h1>
+          <p className="text-muted-foreground">
+            מבנה הקובץ, טבלאות הדגימות ותצורת הקודק - כדי להבין למה החילוץ נופל לשיטה הרגילה
+          </p>
+          <div className="flex justify-center gap-4">
+            <Link to="/" className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors">
+              <Film className="w-4 h-4" />
+              <span>חילוץ פריימים</span>
+            </Link>
+            <Link to="/convert" className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors">
+              <Video className="w-4 h-4" />
+              <span>המרת וידאו</span>
+            </Link>
+          </div>
+        </div>
+
+        {/* Upload Zone */}
+        {!file && (
+          <Card
+            className="upload-zone p-8 md:p-12 border-2 border-dashed border-primary/30 cursor-pointer hover:border-primary/60 transition-colors"
+            onDrop={handleDrop}
+            onDragOver={(event) => event.preventDefault()}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <div className="text-center space-y-4">
+              <div className="w-16 h-16 mx-auto rounded-full bg-primary/10 flex items-center justify-center">
+                <Upload className="w-8 h-8 text-primary" />
+              </div>
+              <div>
+                <p className="text-lg font-medium text-foreground">גרור קובץ MP4 או WebM לכאן</p>
+                <p className="text-sm text-muted-foreground">או לחץ לבחירת קובץ</p>
+              </div>
+            </div>
+            <input ref={fileInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleFileSelect} />
+          </Card>
+        )}
+
+        {isInspecting && (
+          <Card className="p-8">
+            <div className="flex items-center justify-center gap-3">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              <span className="text-muted-foreground">מנתח את הקובץ...</span>
+            </div>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="p-4 border-destructive bg-destructive/10 space-y-3 text-center">
+            <p className="text-destructive">{error}</p>
+            <Button variant="outline" onClick={reset}>
+              <X className="w-4 h-4 ml-2" />
+              בחר קובץ אחר
+            </Button>
+          </Card>
+        )}
+
+        {file && inspection && (
+          <>
+            {/* Summary */}
+            <Card className="p-6 space-y-4">
+              <div className="flex items-center gap-2 text-lg font-semibold text-foreground">
+                <Search className="w-5 h-5 text-primary" />
+                <span className="truncate">{file.name}</span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="info-stat">
+                  <p className="text-xs text-muted-foreground">מכולה</p>
+                  <p className="font-semibold text-foreground">
+                    {inspection.mediaInfo.container.toUpperCase()}
+                    {inspection.mediaInfo.fragmented && " (מקוטע)"}
+                  </p>
+                </div>
+                <div className="info-stat">
+                  <p className="text-xs text-muted-foreground">גודל</p>
+                  <p className="font-semibold text-foreground">{formatBytes(inspection.mediaInfo.fileSize)}</p>
+                </div>
+                <div className="info-stat">
+                  <p className="text-xs text-muted-foreground">אורך</p>
+                  <p className="font-semibold text-foreground">{inspection.mediaInfo.duration.toFixed(3)} שניות</p>
+                </div>
+                <div className="info-stat">
+                  <p className="text-xs text-muted-foreground">מסלולים</p>
+                  <p className="font-semibold text-foreground">{inspection.mediaInfo.tracks.length}</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={inspection.webCodecs.supported ? "default" : "destructive"}>
+                  {inspection.webCodecs.supported ? "חילוץ דרך WebCodecs" : "חילוץ בשיטה הרגילה"}
+                </Badge>
+                {inspection.webCodecs.codec && <span className="font-mono">{inspection.webCodecs.codec}</span>}
+                {inspection.webCodecs.reason && <span className="text-muted-foreground">{inspection.webCodecs.reason}</span>}
+              </div>
+              <Button variant="outline" onClick={reset}>
+                <X className="w-4 h-4 ml-2" />
+                בחר קובץ אחר
+              </Button>
+            </Card>
+
+            <Tabs defaultValue="boxes">
+              <TabsList>
+                <TabsTrigger value="boxes">מבנה הקופסאות</TabsTrigger>
+                <TabsTrigger value="tracks">מסלולים ודגימות</TabsTrigger>
+                <TabsTrigger value="config">תצורת קודק</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="boxes">
+                <Card className="p-4">
+                  {inspection.boxes ? (
+                    <div dir="ltr">
+                      {inspection.boxes.map((box) => (
+                        <BoxTreeItem key={`${box.type}@${box.start}`} box={box} depth={0} onDownload={downloadBox} />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground text-center">לקבצי WebM/Matroska אין מבנה קופסאות ISO-BMFF</p>
+                  )}
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="tracks" className="space-y-4">
+                <Card className="p-4">
+                  <Table dir="ltr">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Kind</TableHead>
+                        <TableHead>Codec</TableHead>
+                        <TableHead>Profile / Level</TableHead>
+                        <TableHead>Details</TableHead>
+                        <TableHead>Duration</TableHead>
+                        <TableHead>Samples</TableHead>
+                        <TableHead>Bitrate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {inspection.mediaInfo.tracks.map((track) => (
+                        <TableRow
+                          key={track.id}
+                          className="cursor-pointer"
+                          data-state={track.id === selectedTrackId ? "selected" : undefined}
+                          onClick={() => {
+                            setSelectedTrackId(track.id);
+                            setSamplePage(0);
+                          }}
+                        >
+                          <TableCell>{track.id}</TableCell>
+                          <TableCell>{track.kind}{track.language && ` (${track.language})`}</TableCell>
+                          <TableCell className="font-mono">{track.codec}</TableCell>
+                          <TableCell>{[track.profile, track.level].filter(Boolean).join(" / ") || "—"}</TableCell>
+                          <TableCell>
+                            {track.video &&
+                              `${track.video.codedWidth}×${track.video.codedHeight} · ${track.video.frameRate} fps · ${track.video.rotation}° · PAR ${track.video.pixelAspectRatio.toFixed(3)}`}
+                            {track.video?.color &&
+                              ` · color ${track.video.color.primaries}/${track.video.color.transfer}/${track.video.color.matrix}${track.video.color.fullRange ? " full" : ""}`}
+                            {track.audio && `${track.audio.sampleRate} Hz · ${track.audio.channels} ch`}
+                          </TableCell>
+                          <TableCell>{track.duration.toFixed(3)}s</TableCell>
+                          <TableCell>{track.sampleCount.toLocaleString()}</TableCell>
+                          <TableCell>{Math.round(track.bitrate / 1000).toLocaleString()} kb/s</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+
+                {selectedTrack && (
+                  <Card className="p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold">טבלת הדגימות של מסלול {selectedTrack.id}</span>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Button variant="outline" size="sm" disabled={samplePage === 0} onClick={() => setSamplePage(samplePage - 1)}>
+                          הקודם
+                        </Button>
+                        <span>עמוד {samplePage + 1} מתוך {pageCount}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={samplePage >= pageCount - 1}
+                          onClick={() => setSamplePage(samplePage + 1)}
+                        >
+                          הבא
+                        </Button>
+                      </div>
+                    </div>
+                    <Table dir="ltr" className="font-mono text-xs">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Offset</TableHead>
+                          <TableHead>Size</TableHead>
+                          <TableHead>DTS</TableHead>
+                          <TableHead>CTS</TableHead>
+                          <TableHead>Duration</TableHead>
+                          <TableHead>Sync</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {pageSamples.map((sample) => (
+                          <TableRow key={sample.number}>
+                            <TableCell>{sample.number}</TableCell>
+                            <TableCell>{sample.offset.toLocaleString()}</TableCell>
+                            <TableCell>{sample.size.toLocaleString()}</TableCell>
+                            <TableCell>{sample.dts !== undefined ? `${sample.dts} (${toSeconds(sample.dts)}s)` : "—"}</TableCell>
+                            <TableCell>{sample.cts} ({toSeconds(sample.cts)}s)</TableCell>
+                            <TableCell>{sample.duration}</TableCell>
+                            <TableCell>{sample.is_sync ? "✓" : ""}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Card>
+                )}
+              </TabsContent>
+
+              <TabsContent value="config" className="space-y-4">
+                {inspection.configs.length === 0 && (
+                  <Card className="p-4">
+                    <p className="text-muted-foreground text-center">לא נמצאה רשומת תצורה מסוג avcC, hvcC או av1C</p>
+                  </Card>
+                )}
+                {inspection.configs.map(({ trackId, codec, sections }) => (
+                  <Card key={trackId} className="p-4 space-y-4">
+                    <div className="font-semibold">
+                      מסלול {trackId} · <span className="font-mono">{codec}</span>
+                    </div>
+                    {sections.map((section) => (
+                      <div key={section.title} dir="ltr" className="space-y-1">
+                        <p className="font-mono font-semibold text-sm">{section.title}</p>
+                        <dl className="space-y-0.5 text-xs font-mono">
+                          {section.fields.map((field, index) => (
+                            <div key={`${field.name}-${index}`} className="flex gap-2">
+                              <dt className="text-muted-foreground shrink-0">{field.name}</dt>
+                              <dd className="break-all">{field.value}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    ))}
+                  </Card>
+                ))}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MediaInspector;
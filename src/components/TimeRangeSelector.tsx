@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { formatTimecode, parseTimecode } from "@/lib/timecode";
+
+interface TimeRangeSelectorProps {
+  videoUrl: string;
+  duration: number;
+  start: number;
+  end: number;
+  onChange: (start: number, end: number) => void;
+  disabled?: boolean;
+}
+
+// Timecode field that only commits on blur/Enter, so partial input isn't clamped while typing
+const TimecodeInput = ({
+  id,
+  value,
+  onCommit,
+  disabled,
+}: {
+  id: string;
+  value: number;
+  onCommit: (seconds: number) => void;
+  disabled?: boolean;
+}) => {
+  const [text, setText] = useState(formatTimecode(value));
+
+  useEffect(() => {
+    setText(formatTimecode(value));
+  }, [value]);
+
+  const commit = () => {
+    const seconds = parseTimecode(text);
+    if (seconds === null) {
+      setText(formatTimecode(value));
+      return;
+    }
+    onCommit(seconds);
+  };
+
+  return (
+    <Input
+      id={id}
+      dir="ltr"
+      value={text}
+      disabled={disabled}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="font-mono text-center"
+    />
+  );
+};
+
+const TimeRangeSelector = ({ videoUrl, duration, start, end, onChange, disabled }: TimeRangeSelectorProps) => {
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const seekPreview = (time: number) => {
+    if (previewRef.current) previewRef.current.currentTime = time;
+  };
+
+  const setStart = (seconds: number) => {
+    const next = Math.min(Math.max(0, seconds), end);
+    onChange(next, end);
+    seekPreview(next);
+  };
+
+  const setEnd = (seconds: number) => {
+    const next = Math.max(Math.min(duration, seconds), start);
+    onChange(start, next);
+    seekPreview(next);
+  };
+
+  const handleSliderChange = ([nextStart, nextEnd]: number[]) => {
+    // Show whichever handle is being dragged in the preview
+    if (nextStart !== start) seekPreview(nextStart);
+    else if (nextEnd !== end) seekPreview(nextEnd);
+    onChange(nextStart, nextEnd);
+  };
+
+  return (
+    <div className="space-y-4">
+      <video
+        ref={previewRef}
+        src={videoUrl}
+        className="w-full max-h-80 rounded-lg bg-black"
+        controls
+        playsInline
+        muted
+        preload="metadata"
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+
+      <div dir="ltr">
+        <Slider
+          value={[start, end]}
+          onValueChange={handleSliderChange}
+          min={0}
+          max={duration}
+          step={0.01}
+          minStepsBetweenThumbs={0}
+          disabled={disabled}
+          className="settings-slider"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="range-start">נקודת התחלה</Label>
+          <div className="flex gap-2">
+            <TimecodeInput id="range-start" value={start} onCommit={setStart} disabled={disabled} />
+            <Button variant="outline" size="sm" onClick={() => setStart(currentTime)} disabled={disabled}>
+              מהמיקום הנוכחי
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="range-end">נקודת סיום</Label>
+          <div className="flex gap-2">
+            <TimecodeInput id="range-end" value={end} onCommit={setEnd} disabled={disabled} />
+            <Button variant="outline" size="sm" onClick={() => setEnd(currentTime)} disabled={disabled}>
+              מהמיקום הנוכחי
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        טווח נבחר: {formatTimecode(end - start)}
+      </p>
+    </div>
+  );
+};
+
+export default TimeRangeSelector;
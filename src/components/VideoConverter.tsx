@@ -5,20 +5,14 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
-import { Upload, Download, Film, Settings, Loader2, X, Video, Music } from "lucide-react";
-import * as MP4Box from "mp4box";
+import { Upload, Download, Film, Settings, Loader2, X, Video, Music, Search } from "lucide-react";
 import { Link } from "react-router-dom";
-
-interface VideoInfo {
-  width: number;
-  height: number;
-  duration: number;
-  frameRate: number;
-  codec: string;
-  audioCodec?: string;
-  audioBitrate?: number;
-  audioSampleRate?: number;
-}
+import GopCharts from "@/components/GopCharts";
+import { createMp4Muxer } from "@/lib/mp4-muxer";
+import { createWebmMuxer } from "@/lib/webm-muxer";
+import { transcodeMp4Audio } from "@/lib/audio-transcoder";
+import { canDemuxVideo, decodeVideo } from "@/lib/video-decoder";
+import { createFallbackMediaInfo, getAudioTrack, getVideoTrack, probeMedia, type MediaInfo } from "@/lib/media-probe";
 
 interface ConversionSettings {
   outputFormat: "mp4" | "webm";
@@ -34,7 +28,7 @@ interface ConversionSettings {
 const VideoConverter = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string>("");
-  const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
   const [conversionProgress, setConversionProgress] = useState(0);
@@ -54,6 +48,12 @@ const VideoConverter = () => {
     frameRate: 30,
   });
 
+  const videoTrack = mediaInfo ? getVideoTrack(mediaInfo) : undefined;
+  const sourceVideo = videoTrack?.video;
+  const sourceFrameRate = sourceVideo?.frameRate || 30;
+  // Audio is only demuxed from MP4 sources
+  const audioTrack = mediaInfo?.container === "mp4" ? getAudioTrack(mediaInfo) : undefined;
+
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -64,46 +64,6 @@ const VideoConverter = () => {
            'AudioDecoder' in window && 'AudioEncoder' in window;
   }, []);
 
-  const getVideoInfoFromFile = async (file: File): Promise<Partial<VideoInfo>> => {
-    return new Promise((resolve) => {
-      const mp4boxFile = MP4Box.createFile();
-      
-      mp4boxFile.onReady = (info: MP4Box.Movie) => {
-        const videoTrack = info.tracks.find((track: MP4Box.Track) => track.type === "video");
-        const audioTrack = info.tracks.find((track: MP4Box.Track) => track.type === "audio");
-        
-        const result: Partial<VideoInfo> = {};
-        
-        if (videoTrack) {
-          result.frameRate = Math.round(videoTrack.nb_samples / (videoTrack.duration / videoTrack.timescale) * 100) / 100;
-          result.codec = videoTrack.codec;
-        }
-        
-        if (audioTrack) {
-          result.audioCodec = audioTrack.codec;
-          result.audioSampleRate = (audioTrack as unknown as { audio?: { sample_rate?: number } }).audio?.sample_rate;
-        }
-        
-        resolve(result);
-      };
-
-      mp4boxFile.onError = () => {
-        resolve({});
-      };
-
-      const reader = new FileReader();
-      reader.onload = () => {
-        const buffer = reader.result as ArrayBuffer;
-        const mp4Buffer = buffer as MP4Box.MP4BoxBuffer;
-        mp4Buffer.fileStart = 0;
-        mp4boxFile.appendBuffer(mp4Buffer);
-        mp4boxFile.flush();
-      };
-      reader.onerror = () => resolve({});
-      reader.readAsArrayBuffer(file);
-    });
-  };
-
   const analyzeVideo = useCallback(async (file: File) => {
     setIsAnalyzing(true);
     const url = URL.createObjectURL(file);
@@ -112,29 +72,27 @@ const VideoConverter = () => {
     const webCodecsSupported = checkWebCodecsSupport();
     setSupportsWebCodecs(webCodecsSupported);
 
-    const mp4Info = await getVideoInfoFromFile(file);
+    const probed = await probeMedia(file).catch(() => null);
 
-    return new Promise<VideoInfo>((resolve) => {
+    return new Promise<MediaInfo>((resolve) => {
       const video = document.createElement("video");
       video.preload = "metadata";
       video.src = url;
 
       video.onloadedmetadata = () => {
-        const info: VideoInfo = {
+        const info = probed ?? createFallbackMediaInfo(file, {
           width: video.videoWidth,
           height: video.videoHeight,
           duration: video.duration,
-          frameRate: mp4Info.frameRate || 30,
-          codec: mp4Info.codec || "unknown",
-          audioCodec: mp4Info.audioCodec,
-          audioSampleRate: mp4Info.audioSampleRate || 48000,
-        };
+        });
+        const frameRate = getVideoTrack(info)?.video?.frameRate || 30;
+        const audioSampleRate = getAudioTrack(info)?.audio?.sampleRate;
 
-        setVideoInfo(info);
+        setMediaInfo(info);
         setSettings((prev) => ({
           ...prev,
-          frameRate: Math.min(prev.frameRate, Math.floor(info.frameRate)),
-          audioSampleRate: info.audioSampleRate || prev.audioSampleRate,
+          frameRate: Math.min(prev.frameRate, Math.floor(frameRate)),
+          audioSampleRate: audioSampleRate || prev.audioSampleRate,
         }));
         setIsAnalyzing(false);
         resolve(info);
@@ -190,7 +148,7 @@ const VideoConverter = () => {
   };
 
   const convertVideo = async () => {
-    if (!videoFile || !videoInfo) return;
+    if (!videoFile || !mediaInfo || !sourceVideo) return;
 
     if (!supportsWebCodecs) {
       setStatusMessage("הדפדפן לא תומך ב-WebCodecs API");
@@ -207,8 +165,8 @@ const VideoConverter = () => {
     const signal = abortControllerRef.current.signal;
 
     try {
-      const outputWidth = Math.round(videoInfo.width * (settings.resolution / 100));
-      const outputHeight = Math.round(videoInfo.height * (settings.resolution / 100));
+      const outputWidth = Math.round(sourceVideo.width * (settings.resolution / 100));
+      const outputHeight = Math.round(sourceVideo.height * (settings.resolution / 100));
       
       // Ensure dimensions are even (required by most codecs)
       const width = outputWidth % 2 === 0 ? outputWidth : outputWidth - 1;
@@ -224,6 +182,8 @@ const VideoConverter = () => {
         bitrate: settings.videoBitrate * 1000,
         framerate: settings.frameRate,
         hardwareAcceleration: "prefer-hardware" as HardwareAcceleration,
+        // MP4 needs length-prefixed NAL units with an avcC description
+        ...(codecStrings.video.startsWith("avc1") ? { avc: { format: "avc" as const } } : {}),
       };
 
       const videoEncoderSupport = await VideoEncoder.isConfigSupported(videoConfig);
@@ -231,17 +191,39 @@ const VideoConverter = () => {
         throw new Error(`הקודק ${settings.videoCodec} לא נתמך בדפדפן זה`);
       }
 
+      let audioConfig: AudioEncoderConfig | null = null;
+      if (audioTrack) {
+        audioConfig = {
+          codec: codecStrings.audio,
+          sampleRate: settings.audioSampleRate,
+          numberOfChannels: Math.min(2, audioTrack.audio?.channels || 2),
+          bitrate: settings.audioBitrate * 1000,
+        };
+        const audioEncoderSupport = await AudioEncoder.isConfigSupported(audioConfig);
+        if (!audioEncoderSupport.supported) {
+          throw new Error(`קודק האודיו ${settings.audioCodec} לא נתמך בדפדפן זה בקצב הדגימה שנבחר`);
+        }
+      }
+
       setStatusMessage("מפענח וידאו...");
 
-      // Process video frames
-      const encodedVideoChunks: { chunk: EncodedVideoChunk; meta?: EncodedVideoChunkMetadata }[] = [];
+      // Encoded chunks go straight into the container muxer
+      const muxerOptions = {
+        video: { codec: codecStrings.video, width, height },
+        audio: audioConfig
+          ? { codec: audioConfig.codec, sampleRate: audioConfig.sampleRate, numberOfChannels: audioConfig.numberOfChannels }
+          : undefined,
+      };
+      const muxer = settings.outputFormat === "mp4"
+        ? createMp4Muxer(muxerOptions)
+        : createWebmMuxer(muxerOptions);
       let processedFrames = 0;
-      const totalFrames = Math.floor(videoInfo.duration * settings.frameRate);
+      const totalFrames = Math.floor(mediaInfo.duration * settings.frameRate);
 
       // Create video encoder
       const videoEncoder = new VideoEncoder({
         output: (chunk, meta) => {
-          encodedVideoChunks.push({ chunk, meta });
+          muxer.addVideoChunk(chunk, meta);
           processedFrames++;
           const progress = (processedFrames / totalFrames) * 80;
           setConversionProgress(progress);
@@ -256,71 +238,107 @@ const VideoConverter = () => {
       videoEncoder.configure(videoConfig);
 
       // Use canvas to process frames
-      const video = videoRef.current!;
       const canvas = canvasRef.current!;
       const ctx = canvas.getContext("2d")!;
       canvas.width = width;
       canvas.height = height;
 
-      video.currentTime = 0;
-      await new Promise<void>((resolve) => {
-        video.onseeked = () => resolve();
-        video.onloadeddata = () => resolve();
-      });
-
       const frameInterval = 1 / settings.frameRate;
-      let currentTime = 0;
       let frameCount = 0;
 
-      while (currentTime < videoInfo.duration) {
-        if (signal.aborted) {
-          throw new DOMException("Conversion cancelled", "AbortError");
+      // Resize a source image onto the canvas and encode it at the given timestamp
+      const encodeFrame = (source: CanvasImageSource, timestampUs: number) => {
+        ctx.drawImage(source, 0, 0, width, height);
+        const frame = new VideoFrame(canvas, {
+          timestamp: timestampUs,
+          duration: frameInterval * 1000000,
+        });
+
+        const keyFrame = frameCount % 30 === 0; // Keyframe every 30 frames
+        videoEncoder.encode(frame, { keyFrame });
+        frame.close();
+        frameCount++;
+      };
+
+      // Decode MP4/WebM sources sequentially; other containers (or WebCodecs failures) fall back to seeking
+      let decodedFromDemuxer = false;
+
+      if (canDemuxVideo(videoFile)) {
+        try {
+          let lastSlot = -1;
+          await decodeVideo(videoFile, {
+            signal,
+            onFrame: (frame) => {
+              // Keep the first frame of every output interval, using the source timestamp
+              const slot = Math.floor(frame.timestamp / 1000000 / frameInterval + 1e-3);
+              if (slot > lastSlot) {
+                lastSlot = slot;
+                encodeFrame(frame, frame.timestamp);
+              }
+              frame.close();
+            },
+            waitForCapacity: async () => {
+              while (videoEncoder.encodeQueueSize > 8) {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+              }
+            },
+          });
+          decodedFromDemuxer = true;
+        } catch (e) {
+          // Once frames reached the encoder we can't restart without duplicating them
+          if (signal.aborted || frameCount > 0) throw e;
+          console.warn("Demux-and-decode conversion failed, falling back to seeking:", e);
         }
+      }
 
+      if (!decodedFromDemuxer) {
+        const video = videoRef.current!;
+        video.currentTime = 0;
         await new Promise<void>((resolve) => {
-          video.currentTime = currentTime;
           video.onseeked = () => resolve();
+          video.onloadeddata = () => resolve();
         });
 
-        ctx.drawImage(video, 0, 0, width, height);
+        let currentTime = 0;
 
-        const imageBitmap = await createImageBitmap(canvas);
-        const frame = new VideoFrame(imageBitmap, {
-          timestamp: currentTime * 1000000,
-          duration: frameInterval * 1000000,
-        });
+        while (currentTime < mediaInfo.duration) {
+          if (signal.aborted) {
+            throw new DOMException("Conversion cancelled", "AbortError");
+          }
 
-        const keyFrame = frameCount % 30 === 0; // Keyframe every 30 frames
-        videoEncoder.encode(frame, { keyFrame });
-        frame.close();
-        imageBitmap.close();
+          await new Promise<void>((resolve) => {
+            video.currentTime = currentTime;
+            video.onseeked = () => resolve();
+          });
 
-        currentTime += frameInterval;
-        frameCount++;
+          encodeFrame(video, currentTime * 1000000);
+          currentTime += frameInterval;
+        }
       }
 
       await videoEncoder.flush();
       videoEncoder.close();
 
+      if (audioConfig) {
+        setStatusMessage("מקודד אודיו...");
+        await transcodeMp4Audio(
+          videoFile,
+          {
+            codec: audioConfig.codec,
+            sampleRate: audioConfig.sampleRate,
+            numberOfChannels: audioConfig.numberOfChannels,
+            bitrate: audioConfig.bitrate!,
+          },
+          (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+          signal,
+          (progress) => setConversionProgress(80 + progress * 0.1)
+        );
+      }
+
       setStatusMessage("יוצר קובץ פלט...");
       setConversionProgress(90);
 
-      // Create output blob
-      const mimeType = settings.outputFormat === "mp4" ? "video/mp4" : "video/webm";
-      
-      // For now, create a simple output - in production you'd use proper muxing
-      const totalSize = encodedVideoChunks.reduce((acc, { chunk }) => acc + chunk.byteLength, 0);
-      const outputBuffer = new Uint8Array(totalSize);
-      let offset = 0;
-      
-      for (const { chunk } of encodedVideoChunks) {
-        const data = new Uint8Array(chunk.byteLength);
-        chunk.copyTo(data);
-        outputBuffer.set(data, offset);
-        offset += chunk.byteLength;
-      }
-
-      const outputBlob = new Blob([outputBuffer], { type: mimeType });
+      const outputBlob = muxer.finalize();
       setConvertedBlob(outputBlob);
       setConversionProgress(100);
       setStatusMessage("ההמרה הושלמה בהצלחה!");
@@ -420,13 +438,22 @@ const VideoConverter = () => {
           <p className="text-muted-foreground">
             המר וידאו לפורמטים שונים עם WebCodecs
           </p>
-          <Link
-            to="/"
-            className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
-          >
-            <Film className="w-4 h-4" />
-            <span>חזרה לחילוץ פריימים</span>
-          </Link>
+          <div className="flex justify-center gap-4">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
+            >
+              <Film className="w-4 h-4" />
+              <span>חזרה לחילוץ פריימים</span>
+            </Link>
+            <Link
+              to="/inspect"
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
+            >
+              <Search className="w-4 h-4" />
+              <span>בודק מדיה</span>
+            </Link>
+          </div>
         </div>
 
         {/* WebCodecs Support Warning */}
@@ -476,7 +503,7 @@ const VideoConverter = () => {
         )}
 
         {/* Video Info */}
-        {videoInfo && videoFile && !isAnalyzing && (
+        {mediaInfo && sourceVideo && videoFile && !isAnalyzing && (
           <>
             <Card className="video-info-card p-6 space-y-4">
               <div className="flex items-center gap-2 text-lg font-semibold text-foreground">
@@ -487,22 +514,26 @@ const VideoConverter = () => {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="info-stat">
                   <p className="text-xs text-muted-foreground">רזולוציה</p>
-                  <p className="font-semibold text-foreground">{videoInfo.width}×{videoInfo.height}</p>
+                  <p className="font-semibold text-foreground">{sourceVideo.width}×{sourceVideo.height}</p>
                 </div>
                 <div className="info-stat">
                   <p className="text-xs text-muted-foreground">אורך</p>
-                  <p className="font-semibold text-foreground">{formatDuration(videoInfo.duration)}</p>
+                  <p className="font-semibold text-foreground">{formatDuration(mediaInfo.duration)}</p>
                 </div>
                 <div className="info-stat">
                   <p className="text-xs text-muted-foreground">קצב פריימים</p>
-                  <p className="font-semibold text-foreground">{videoInfo.frameRate} FPS</p>
+                  <p className="font-semibold text-foreground">{sourceFrameRate} FPS</p>
                 </div>
                 <div className="info-stat">
                   <p className="text-xs text-muted-foreground">קודק</p>
-                  <p className="font-semibold text-foreground">{videoInfo.codec}</p>
+                  <p className="font-semibold text-foreground">{videoTrack?.codec}</p>
                 </div>
               </div>
 
+              {videoTrack && videoTrack.samples.length > 0 && (
+                <GopCharts samples={videoTrack.samples} timescale={videoTrack.timescale} />
+              )}
+
               <video
                 ref={videoRef}
                 src={videoUrl}
@@ -515,7 +546,7 @@ const VideoConverter = () => {
                 onClick={() => {
                   setVideoFile(null);
                   setVideoUrl("");
-                  setVideoInfo(null);
+                  setMediaInfo(null);
                   setConvertedBlob(null);
                   setConversionProgress(0);
                   setStatusMessage("");
@@ -605,7 +636,7 @@ const VideoConverter = () => {
                     step={25}
                   />
                   <p className="text-xs text-muted-foreground">
-                    {Math.round(videoInfo.width * (settings.resolution / 100))}×{Math.round(videoInfo.height * (settings.resolution / 100))}
+                    {Math.round(sourceVideo.width * (settings.resolution / 100))}×{Math.round(sourceVideo.height * (settings.resolution / 100))}
                   </p>
                 </div>
 
@@ -617,7 +648,7 @@ const VideoConverter = () => {
                     value={[settings.frameRate]}
                     onValueChange={([v]) => setSettings(prev => ({ ...prev, frameRate: v }))}
                     min={1}
-                    max={Math.floor(videoInfo.frameRate)}
+                    max={Math.floor(sourceFrameRate)}
                     step={1}
                   />
                 </div>
@@ -6,24 +6,77 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
-import { Upload, Download, Film, Settings, Image as ImageIcon, Loader2, Zap, X, Video } from "lucide-react";
-import JSZip from "jszip";
-import * as MP4Box from "mp4box";
-
-interface VideoInfo {
-  width: number;
-  height: number;
-  duration: number;
-  frameCount: number;
-  frameRate: number;
-}
-
-interface ExtractionSettings {
-  fps: number;
-  resolution: number;
-  quality: number;
-  format: "png" | "jpeg" | "webp";
-}
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Upload, Download, Film, Settings, Image as ImageIcon, Loader2, Zap, X, Video, Scissors, Search, Crop } from "lucide-react";
+import TimeRangeSelector from "@/components/TimeRangeSelector";
+import GopCharts from "@/components/GopCharts";
+import CropSelector from "@/components/CropSelector";
+import { formatTimecode } from "@/lib/timecode";
+import { parseTimestampList } from "@/lib/timestamp-list";
+import { embedFrameMetadata } from "@/lib/image-metadata";
+import { getSourceCropRect } from "@/lib/crop";
+import {
+  buildManifestCsv,
+  buildManifestJson,
+  createManifestFrame,
+  MANIFEST_CSV_FILE_NAME,
+  MANIFEST_JSON_FILE_NAME,
+  type ExtractionMethod,
+  type ManifestFrame,
+} from "@/lib/manifest";
+import {
+  FILE_NAME_TOKENS,
+  getDefaultFileNameTemplate,
+  renderFileName,
+  safeFileNamePart,
+  validateFileNameTemplate,
+  type FileNameTemplateIssue,
+} from "@/lib/file-name-template";
+import {
+  buildSubtitleManifest,
+  getSubtitleTracks,
+  parseSubtitleFile,
+  readSubtitleTrack,
+  type SubtitleFrame,
+} from "@/lib/subtitles";
+import { buildCutListCsv, createLumaSampler, createSceneDetector, type SceneCut } from "@/lib/scene-detection";
+import {
+  countTargetFrames,
+  getOutputSize,
+  createSourceFrameLookup,
+  estimateFramesInRange,
+  getRequestedFrames,
+  selectFrameIndices,
+  type ExtractedFrame,
+  type ExtractionMode,
+  type ExtractionSettings,
+  type ProgressCallback,
+  type VideoInfo,
+} from "@/lib/frame-extraction";
+import { runFrameExtractorWorker, type FrameReadyCallback } from "@/lib/frame-extractor-client";
+import { createZipWriter, type ZipSink, type ZipWriter } from "@/lib/zip-writer";
+import { createFileHandleSink, createMemorySink, createServiceWorkerDownloadSink } from "@/lib/zip-sinks";
+import { canDemuxVideo } from "@/lib/video-decoder";
+import { getVideoTrack, probeMedia, type MediaTrackInfo } from "@/lib/media-probe";
+
+
+const SCENE_CUTS_FILE_NAME = "scene_cuts.csv";
+const SUBTITLE_MANIFEST_FILE_NAME = "subtitles.json";
+
+const describeTemplateIssue = (issue: FileNameTemplateIssue) => {
+  switch (issue.kind) {
+    case "illegal-character":
+      return `התו "${issue.character}" אינו מותר בשמות קבצים`;
+    case "unknown-token":
+      return `תג לא מוכר: {${issue.token}}`;
+    case "collision":
+      return "כל הפריימים יקבלו את אותו שם; הוסיפו {index}";
+  }
+};
+// Seek-based scene detection can't look at every frame, so it samples at this rate
+const SCENE_FALLBACK_FPS = 5;
 
 // Using mp4box types directly - cast as needed
 
@@ -31,23 +84,46 @@ const VideoFrameExtractor = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string>("");
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [videoTrackInfo, setVideoTrackInfo] = useState<MediaTrackInfo | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractionProgress, setExtractionProgress] = useState(0);
-  const [extractedFrames, setExtractedFrames] = useState<Blob[]>([]);
+  const [extractedFrameCount, setExtractedFrameCount] = useState(0);
+  // Only set when the ZIP had to be built in memory; streamed archives are already saved
+  const [zipBlob, setZipBlob] = useState<Blob | null>(null);
   const [useWebCodecs, setUseWebCodecs] = useState<boolean | null>(null);
   const [extractionMethod, setExtractionMethod] = useState<string>("");
   const [statusMessage, setStatusMessage] = useState<string>("");
+  const [timestampText, setTimestampText] = useState("");
+  const [invalidTimestamps, setInvalidTimestamps] = useState<string[]>([]);
+  const [subtitleTracks, setSubtitleTracks] = useState<MediaTrackInfo[]>([]);
+  // Where the loaded cues came from: an embedded track id or the uploaded file's name
+  const [subtitleSource, setSubtitleSource] = useState("");
+  const [isLoadingSubtitles, setIsLoadingSubtitles] = useState(false);
   const [settings, setSettings] = useState<ExtractionSettings>({
     fps: 1,
     resolution: 100,
     quality: 0.9,
     format: "png",
+    mode: "fps",
+    frameStep: 10,
+    totalFrames: 100,
+    timestamps: [],
+    subtitleCues: [],
+    startTime: 0,
+    endTime: 0,
+    sceneThreshold: 0.15,
+    sceneMinGap: 1,
+    fileNameTemplate: "",
+    embedMetadata: true,
+    crop: null,
   });
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const timestampFileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleFileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const progressUiRef = useRef({
     lastProgressUpdate: 0,
@@ -67,351 +143,69 @@ const VideoFrameExtractor = () => {
     return 'VideoDecoder' in window && 'EncodedVideoChunk' in window;
   }, []);
 
-  const getVideoFpsFromFile = async (file: File): Promise<{ fps: number; frameCount: number; codec?: string; trackId?: number } | null> => {
-    return new Promise((resolve) => {
-      const mp4boxFile = MP4Box.createFile();
-      
-      mp4boxFile.onReady = (info: MP4Box.Movie) => {
-        const videoTrack = info.tracks.find((track: MP4Box.Track) => track.type === "video");
-        if (videoTrack) {
-          const fps = videoTrack.nb_samples / (videoTrack.duration / videoTrack.timescale);
-          const frameCount = videoTrack.nb_samples;
-          resolve({ 
-            fps: Math.round(fps * 100) / 100, 
-            frameCount,
-            codec: videoTrack.codec,
-            trackId: videoTrack.id
-          });
-        } else {
-          resolve(null);
-        }
-      };
-
-      mp4boxFile.onError = () => {
-        resolve(null);
-      };
-
-      const reader = new FileReader();
-      reader.onload = () => {
-        const buffer = reader.result as ArrayBuffer;
-        const mp4Buffer = buffer as MP4Box.MP4BoxBuffer;
-        mp4Buffer.fileStart = 0;
-        mp4boxFile.appendBuffer(mp4Buffer);
-        mp4boxFile.flush();
-      };
-      reader.onerror = () => resolve(null);
-      reader.readAsArrayBuffer(file);
-    });
-  };
-
-  // WebCodecs-based fast extraction
-  const extractFramesWebCodecs = async (
+  // WebCodecs-based fast extraction, run in a worker so decoding and image encoding don't block the UI
+  const extractFramesWebCodecs = (
     file: File,
     videoInfo: VideoInfo,
     settings: ExtractionSettings,
-    onProgress: (progress: number, currentFrame: number, totalFrames: number) => void,
+    onProgress: ProgressCallback,
     signal?: AbortSignal,
-    onFrameReady?: (blob: Blob, frameIndex: number) => Promise<void>
-  ): Promise<Blob[]> => {
-    return new Promise((resolve, reject) => {
-      // Check for cancellation at start
-      if (signal?.aborted) {
-        reject(new DOMException("Extraction cancelled", "AbortError"));
-        return;
-      }
-      const frames: Blob[] = [];
-      const canvas = canvasRef.current!;
-      const ctx = canvas.getContext("2d")!;
-
-      const outputWidth = Math.round(videoInfo.width * (settings.resolution / 100));
-      const outputHeight = Math.round(videoInfo.height * (settings.resolution / 100));
-      canvas.width = outputWidth;
-      canvas.height = outputHeight;
-
-      const frameIntervalMicroseconds = (1000000 / settings.fps);
-      let lastExtractedTimestamp = -frameIntervalMicroseconds;
-      const targetFrameCount = Math.floor(videoInfo.duration * settings.fps);
-      let processedFrameCount = 0;
-      
-      const mimeType = `image/${settings.format}`;
-      const quality = settings.format === "png" ? undefined : settings.quality;
-
-      const pendingBlobs: Promise<void>[] = [];
-      const mp4boxFile = MP4Box.createFile();
-      let videoTrackId: number | null = null;
-      let codecConfig: VideoDecoderConfig | null = null;
-      let decoder: VideoDecoder | null = null;
-      let decoderClosed = false;
-
-      let rejected = false;
-      const fail = (err: unknown) => {
-        if (rejected) return;
-        rejected = true;
-        try {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (mp4boxFile as any).stop?.();
-        } catch {
-          // ignore
-        }
-        try {
-          decoderClosed = true;
-          decoder?.close();
-        } catch {
-          // ignore
-        }
-        reject(err);
-      };
-
-      // Listen for abort signal
-      const abortHandler = () => {
-        fail(new DOMException("Extraction cancelled", "AbortError"));
-      };
-      signal?.addEventListener("abort", abortHandler, { once: true });
-
-      decoder = new VideoDecoder({
-        output: (frame: VideoFrame) => {
-          const timestamp = frame.timestamp;
-          
-          // Check if we should keep this frame based on target FPS
-          if (timestamp - lastExtractedTimestamp >= frameIntervalMicroseconds * 0.9) {
-            lastExtractedTimestamp = timestamp;
-            
-            ctx.drawImage(frame, 0, 0, outputWidth, outputHeight);
-            
-            const blobPromise = new Promise<void>(async (resolveBlob) => {
-              canvas.toBlob(
-                async (blob) => {
-                  if (blob) {
-                    const frameIdx = processedFrameCount;
-                    processedFrameCount++;
-                    
-                    // If streaming to folder, save immediately
-                    if (onFrameReady) {
-                      try {
-                        await onFrameReady(blob, frameIdx);
-                      } catch (e) {
-                        console.error("Error saving frame:", e);
-                      }
-                    } else {
-                      frames.push(blob);
-                    }
-                    
-                    onProgress((processedFrameCount / targetFrameCount) * 100, processedFrameCount, targetFrameCount);
-                  }
-                  resolveBlob();
-                },
-                mimeType,
-                quality
-              );
-            });
-            pendingBlobs.push(blobPromise);
-          }
-          
-          frame.close();
-        },
-        error: (e) => {
-          console.error("Decoder error:", e);
-          if (!decoderClosed) {
-            fail(e);
-          }
-        },
-      });
-
-      let trackTimescale = 1;
-      
-      mp4boxFile.onReady = (info: MP4Box.Movie) => {
-        const videoTrack = info.tracks.find((track: MP4Box.Track) => track.type === "video");
-        if (!videoTrack) {
-          reject(new Error("No video track found"));
-          return;
-        }
-
-        videoTrackId = videoTrack.id;
-        trackTimescale = videoTrack.timescale;
-        
-        // Build codec string for WebCodecs
-        const codecString = videoTrack.codec;
-        
-        // Extract description (avcC/hvcC) for H.264/HEVC codecs
-        let description: Uint8Array | undefined;
-
-        const serializeMp4Box = (box: unknown): Uint8Array | undefined => {
-          if (!box) return undefined;
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const b: any = box;
-          if (b instanceof Uint8Array) return b;
-          if (b?.data instanceof Uint8Array) return b.data;
-          if (b?.data instanceof ArrayBuffer) return new Uint8Array(b.data);
-          if (b?.buffer instanceof ArrayBuffer && typeof b.byteOffset === "number" && typeof b.byteLength === "number") {
-            return new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
-          }
-          if (b?.buffer instanceof ArrayBuffer) return new Uint8Array(b.buffer);
-
-          // Try to serialize via MP4Box's internal DataStream if available.
-          // This usually writes a full MP4 box (size+type+payload), so we strip the 8-byte header.
-          if (typeof b?.write === "function") {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const DataStreamCtor = (MP4Box as any).DataStream;
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const Endianness = (MP4Box as any).Endianness;
-            if (DataStreamCtor) {
-              try {
-                const stream = new DataStreamCtor(undefined, 0, Endianness?.BIG_ENDIAN ?? 1);
-                b.write(stream);
-                const total = stream?.buffer as ArrayBuffer | undefined;
-                const endPos = typeof stream?.position === "number" ? stream.position : undefined;
-                if (total && endPos && endPos > 8) {
-                  return new Uint8Array(total.slice(8, endPos));
-                }
-                if (total && total.byteLength > 8) {
-                  return new Uint8Array(total.slice(8));
-                }
-              } catch {
-                // ignore
-              }
-            }
-          }
-
-          return undefined;
-        };
-        
-        try {
-          // Get the track box to access codec-specific configuration
-          const trak = mp4boxFile.getTrackById(videoTrackId);
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const entry = (trak as any)?.mdia?.minf?.stbl?.stsd?.entries?.[0];
-          
-          if (entry) {
-            // For H.264 (AVC) - avcC box contains SPS/PPS
-            if (entry.avcC) {
-              description = serializeMp4Box(entry.avcC);
-            }
-            // For HEVC - hvcC box
-            else if (entry.hvcC) {
-              description = serializeMp4Box(entry.hvcC);
-            }
-          }
-        } catch (e) {
-          console.warn("Could not extract codec description:", e);
-        }
-        
-        // For AVC codecs, description is required
-        if (codecString.startsWith("avc") && !description) {
-          console.warn("No AVC description found, falling back to legacy method");
-          fail(new Error("AVC description required for WebCodecs"));
-          return;
-        }
-        
-        codecConfig = {
-          codec: codecString,
-          codedWidth: (videoTrack as { video?: { width: number; height: number } }).video?.width || videoInfo.width,
-          codedHeight: (videoTrack as { video?: { width: number; height: number } }).video?.height || videoInfo.height,
-          hardwareAcceleration: "prefer-hardware" as HardwareAcceleration,
-          description: description,
-        };
-
-        try {
-          decoder.configure(codecConfig);
-          mp4boxFile.setExtractionOptions(videoTrackId, null, { nbSamples: 100 });
-          mp4boxFile.start();
-        } catch (e) {
-          fail(e);
-        }
-      };
-
-      mp4boxFile.onSamples = (_trackId: number, _user: unknown, samples: MP4Box.Sample[]) => {
-        for (const sample of samples) {
-          try {
-            // Convert from track timescale to microseconds
-            const timestampUs = Math.floor(((sample.cts || 0) / trackTimescale) * 1000000);
-            const durationUs = Math.floor(((sample.duration || 0) / trackTimescale) * 1000000);
-            
-            const chunk = new EncodedVideoChunk({
-              type: sample.is_sync ? "key" : "delta",
-              timestamp: timestampUs,
-              duration: durationUs,
-              data: sample.data!,
-            });
-            decoder.decode(chunk);
-          } catch (e) {
-            console.error("Error decoding sample:", e);
-            // If WebCodecs decoding fails (common with missing/invalid description or keyframe requirements),
-            // stop this path so the caller can fall back to the legacy extractor.
-            fail(e);
-            return;
-          }
-        }
-      };
-
-      mp4boxFile.onError = (_module: string, message: string) => {
-        console.error("MP4Box error:", message);
-        fail(new Error(message));
-      };
-
-      // Read file in chunks for better performance
-      const chunkSize = 1024 * 1024; // 1MB chunks
-      let offset = 0;
-
-      const readNextChunk = () => {
-        if (offset >= file.size) {
-          mp4boxFile.flush();
-          
-          // Wait for decoder to finish
-          decoder.flush().then(async () => {
-            decoderClosed = true;
-            decoder.close();
-            signal?.removeEventListener("abort", abortHandler);
-            await Promise.all(pendingBlobs);
-            resolve(frames);
-          }).catch((e) => {
-            signal?.removeEventListener("abort", abortHandler);
-            reject(e);
-          });
-          return;
-        }
-
-        const slice = file.slice(offset, offset + chunkSize);
-        const reader = new FileReader();
-        
-        reader.onload = () => {
-          const buffer = reader.result as ArrayBuffer;
-          const mp4Buffer = buffer as MP4Box.MP4BoxBuffer;
-          mp4Buffer.fileStart = offset;
-          mp4boxFile.appendBuffer(mp4Buffer);
-          offset += chunkSize;
-          readNextChunk();
-        };
-        
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsArrayBuffer(slice);
-      };
+    onFrameReady?: FrameReadyCallback
+  ): Promise<ExtractedFrame[]> => {
+    if (typeof OffscreenCanvas === "undefined") {
+      return Promise.reject(new Error("OffscreenCanvas is not supported"));
+    }
 
-      readNextChunk();
-    });
+    const createWorker = () =>
+      new Worker(new URL("../workers/frame-extractor.worker.ts", import.meta.url), { type: "module" });
+    return runFrameExtractorWorker(createWorker, file, videoInfo, settings, { onProgress, signal, onFrameReady });
   };
 
   // Fallback: Legacy seek-based extraction
   const extractFramesLegacy = async (
     videoInfo: VideoInfo,
     settings: ExtractionSettings,
-    onProgress: (progress: number, currentFrame: number, totalFrames: number) => void,
+    onProgress: ProgressCallback,
     signal?: AbortSignal,
-    onFrameReady?: (blob: Blob, frameIndex: number) => Promise<void>
-  ): Promise<Blob[]> => {
+    onFrameReady?: FrameReadyCallback
+  ): Promise<ExtractedFrame[]> => {
     const video = videoRef.current!;
     const canvas = canvasRef.current!;
     const ctx = canvas.getContext("2d")!;
 
-    const outputWidth = Math.round(videoInfo.width * (settings.resolution / 100));
-    const outputHeight = Math.round(videoInfo.height * (settings.resolution / 100));
+    const { width: outputWidth, height: outputHeight } = getOutputSize(videoInfo.width, videoInfo.height, settings);
+    // The element already shows the video upright
+    const sourceRect = settings.crop
+      ? getSourceCropRect(settings.crop, 0, video.videoWidth || videoInfo.width, video.videoHeight || videoInfo.height)
+      : null;
     canvas.width = outputWidth;
     canvas.height = outputHeight;
 
-    const framesToExtract = Math.floor(videoInfo.duration * settings.fps);
-    const frameInterval = 1 / settings.fps;
-    const frames: Blob[] = [];
-
-    video.currentTime = 0;
+    const samplingFps = settings.mode === "scenes" ? Math.min(SCENE_FALLBACK_FPS, videoInfo.frameRate) : settings.fps;
+    const frameInterval = 1 / samplingFps;
+    // Index modes pick frames by their position in the range at the nominal frame rate
+    const frameIndices = selectFrameIndices(estimateFramesInRange(videoInfo, settings), settings);
+    const requestedFrames = getRequestedFrames(settings);
+    // The element shows the frame presented at the seek time; find it in the sample table
+    const findSourceFrame = videoTrackInfo?.samples.length
+      ? createSourceFrameLookup(videoTrackInfo.samples, videoTrackInfo.timescale)
+      : null;
+    // In keyframe mode, seek straight to the sync sample times read from the sample table
+    const targetTimes = settings.mode === "keyframes"
+      ? (videoInfo.keyframeTimes ?? []).filter((time) => time >= settings.startTime && time <= settings.endTime)
+      : requestedFrames
+      ? requestedFrames.map((requested) => requested.time)
+      // Seeking to the middle of each nominal frame keeps rounding from landing on a neighbour
+      : frameIndices?.map((index) => settings.startTime + (index + 0.5) / videoInfo.frameRate) ?? null;
+    const framesToExtract = targetTimes ? targetTimes.length : Math.floor((settings.endTime - settings.startTime) * samplingFps);
+    const frames: ExtractedFrame[] = [];
+    const lumaSampler = settings.mode === "scenes" ? createLumaSampler() : null;
+    const sceneDetector = settings.mode === "scenes"
+      ? createSceneDetector({ threshold: settings.sceneThreshold, minGap: settings.sceneMinGap })
+      : null;
+
+    video.currentTime = settings.startTime;
+    let extractedCount = 0;
 
     for (let i = 0; i < framesToExtract; i++) {
       // Check for cancellation
@@ -419,14 +213,27 @@ const VideoFrameExtractor = () => {
         throw new DOMException("Extraction cancelled", "AbortError");
       }
 
-      const targetTime = i * frameInterval;
+      const targetTime = targetTimes ? targetTimes[i] : settings.startTime + i * frameInterval;
       
       await new Promise<void>((resolve) => {
         video.currentTime = targetTime;
         video.onseeked = () => resolve();
       });
 
-      ctx.drawImage(video, 0, 0, outputWidth, outputHeight);
+      let cut: SceneCut | null = null;
+      if (sceneDetector) {
+        cut = sceneDetector.push(lumaSampler!.sample(video), targetTime);
+        if (!cut) {
+          onProgress(((i + 1) / framesToExtract) * 100, extractedCount);
+          continue;
+        }
+      }
+
+      if (sourceRect) {
+        ctx.drawImage(video, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, 0, 0, outputWidth, outputHeight);
+      } else {
+        ctx.drawImage(video, 0, 0, outputWidth, outputHeight);
+      }
 
       const mimeType = `image/${settings.format}`;
       const quality = settings.format === "png" ? undefined : settings.quality;
@@ -440,13 +247,30 @@ const VideoFrameExtractor = () => {
       });
 
       // If streaming to folder, save immediately
+      const source = findSourceFrame?.(targetTime);
+      const extracted: ExtractedFrame = {
+        blob,
+        timestamp: targetTime,
+        width: outputWidth,
+        height: outputHeight,
+        sourceIndex: source?.index,
+        keyframe: source?.keyframe,
+        sceneScore: cut?.score,
+        requestedTime: requestedFrames?.[i].time,
+        cue: requestedFrames?.[i].cue,
+      };
       if (onFrameReady) {
-        await onFrameReady(blob, i);
+        await onFrameReady(extracted, extractedCount);
       } else {
-        frames.push(blob);
+        frames.push(extracted);
       }
+      extractedCount++;
       
-      onProgress(((i + 1) / framesToExtract) * 100, i + 1, framesToExtract);
+      if (sceneDetector) {
+        onProgress(((i + 1) / framesToExtract) * 100, extractedCount);
+      } else {
+        onProgress(((i + 1) / framesToExtract) * 100, i + 1, framesToExtract);
+      }
     }
 
     return frames;
@@ -461,8 +285,9 @@ const VideoFrameExtractor = () => {
     const webCodecsSupported = supportsWebCodecs();
     setUseWebCodecs(webCodecsSupported);
 
-    // Try to get FPS from MP4Box first
-    const mp4Info = await getVideoFpsFromFile(file);
+    // Frame rate, frame count and keyframes come from the container; the element covers the rest
+    const mediaInfo = await probeMedia(file).catch(() => null);
+    const videoTrack = mediaInfo ? getVideoTrack(mediaInfo) : undefined;
 
     return new Promise<VideoInfo>((resolve) => {
       const video = document.createElement("video");
@@ -470,12 +295,15 @@ const VideoFrameExtractor = () => {
       video.src = url;
 
       video.onloadedmetadata = () => {
-        const duration = video.duration;
+        // MediaRecorder WebM files have no duration in their header, so the element reports Infinity or NaN
+        const duration = Number.isFinite(video.duration)
+          ? video.duration
+          : mediaInfo?.duration || videoTrack?.duration || 0;
         const width = video.videoWidth;
         const height = video.videoHeight;
         
-        const detectedFps = mp4Info?.fps || 30;
-        const frameCount = mp4Info?.frameCount || Math.floor(duration * detectedFps);
+        const detectedFps = videoTrack?.video?.frameRate || 30;
+        const frameCount = videoTrack?.sampleCount || Math.floor(duration * detectedFps);
 
         const info: VideoInfo = {
           width,
@@ -483,12 +311,20 @@ const VideoFrameExtractor = () => {
           duration,
           frameCount,
           frameRate: detectedFps,
+          keyframeTimes: videoTrack?.video?.keyframeTimes,
         };
 
         setVideoInfo(info);
+        setVideoTrackInfo(videoTrack ?? null);
+        setSubtitleTracks(mediaInfo ? getSubtitleTracks(mediaInfo) : []);
+        setSubtitleSource("");
         setSettings((prev) => ({
           ...prev,
           fps: Math.min(prev.fps, Math.floor(detectedFps)),
+          startTime: 0,
+          endTime: duration,
+          subtitleCues: [],
+          crop: null,
         }));
         setIsAnalyzing(false);
         resolve(info);
@@ -500,7 +336,8 @@ const VideoFrameExtractor = () => {
     const file = event.target.files?.[0];
     if (file && file.type.startsWith("video/")) {
       setVideoFile(file);
-      setExtractedFrames([]);
+      setExtractedFrameCount(0);
+      setZipBlob(null);
       setExtractionProgress(0);
       setExtractionMethod("");
       setStatusMessage("");
@@ -509,12 +346,51 @@ const VideoFrameExtractor = () => {
     }
   };
 
+  const applyTimestampText = (text: string) => {
+    setTimestampText(text);
+    const list = parseTimestampList(text, videoInfo?.frameRate ?? 30);
+    setInvalidTimestamps(list.invalid);
+    setSettings((prev) => ({ ...prev, timestamps: list.times }));
+  };
+
+  const handleTimestampFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) applyTimestampText(await file.text());
+  };
+
+  const handleSubtitleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const cues = parseSubtitleFile(await file.text());
+    setSubtitleSource(file.name);
+    setSettings((prev) => ({ ...prev, subtitleCues: cues }));
+  };
+
+  const loadSubtitleTrack = async (trackId: string) => {
+    const track = subtitleTracks.find((candidate) => String(candidate.id) === trackId);
+    if (!videoFile || !track) return;
+    setIsLoadingSubtitles(true);
+    try {
+      const cues = await readSubtitleTrack(videoFile, track);
+      setSubtitleSource(trackId);
+      setSettings((prev) => ({ ...prev, subtitleCues: cues }));
+    } catch (e) {
+      console.error("Failed to read subtitle track:", e);
+      alert("שגיאה בקריאת רצועת הכתוביות");
+    } finally {
+      setIsLoadingSubtitles(false);
+    }
+  };
+
   const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     const file = event.dataTransfer.files[0];
     if (file && file.type.startsWith("video/")) {
       setVideoFile(file);
-      setExtractedFrames([]);
+      setExtractedFrameCount(0);
+      setZipBlob(null);
       setExtractionProgress(0);
       setExtractionMethod("");
       setStatusMessage("");
@@ -546,7 +422,8 @@ const VideoFrameExtractor = () => {
       const file = new File([blob], "video_from_url." + (blob.type.split('/')[1] || 'mp4'), { type: blob.type });
       
       setVideoFile(file);
-      setExtractedFrames([]);
+      setExtractedFrameCount(0);
+      setZipBlob(null);
       setExtractionProgress(0);
       setExtractionMethod("");
       setStatusMessage("");
@@ -586,9 +463,6 @@ const VideoFrameExtractor = () => {
     return requestedPermission === "granted";
   };
 
-  const safeFileNamePart = (name: string) =>
-    name.replace(/\.[^/.]+$/, "").replace(/[<>:"/\\|?*\x00-\x1F]/g, "_").trim() || "video";
-
   const createUniqueFramesDirectory = async (
     targetDirectory: FileSystemDirectoryHandle,
     sourceFileName: string
@@ -688,9 +562,18 @@ const VideoFrameExtractor = () => {
       }
     }
 
+    // Open the ZIP destination first, while we still have the click's user activation
+    let zipWriter: ZipWriter | null = null;
+    if (saveMethod === "zip") {
+      const sink = await openZipSink(`frames_${safeFileNamePart(videoFile.name)}.zip`);
+      if (!sink) return; // User cancelled
+      zipWriter = createZipWriter(sink);
+    }
+
     setIsExtracting(true);
     setIsCancelling(false);
-    setExtractedFrames([]);
+    setExtractedFrameCount(0);
+    setZipBlob(null);
     setExtractionProgress(0);
     setSavedBytes(0);
     progressUiRef.current = {
@@ -716,74 +599,130 @@ const VideoFrameExtractor = () => {
       }
     }
 
-    const onProgress = (progress: number, currentFrame: number, totalFrames: number) => {
+    // Both ZIP and folder output are written frame by frame, so nothing accumulates in memory
+    const saveOutputFile = (fileName: string, blob: Blob) =>
+      zipWriter ? zipWriter.addFile(fileName, blob) : writeBlobToFile(framesDir!, fileName, blob, signal);
+
+    const onProgress: ProgressCallback = (progress, currentFrame, totalFrames) => {
       const now = performance.now();
-      const shouldUpdate = now - progressUiRef.current.lastProgressUpdate > 120 || currentFrame >= totalFrames;
+      const shouldUpdate = now - progressUiRef.current.lastProgressUpdate > 120 ||
+        (totalFrames !== undefined && currentFrame >= totalFrames);
       if (!shouldUpdate) return;
 
       progressUiRef.current.lastProgressUpdate = now;
       setExtractionProgress(Math.min(progress, 100));
-      if (saveMethod === "folder") {
+      if (totalFrames === undefined) {
+        setStatusMessage(`זוהו ${currentFrame.toLocaleString()} סצנות`);
+      } else if (saveMethod === "folder") {
         setStatusMessage(`חולצו ונשמרו ${currentFrame.toLocaleString()} מתוך ${totalFrames.toLocaleString()} פריימים`);
       } else {
         setStatusMessage(`חולצו ${currentFrame.toLocaleString()} מתוך ${totalFrames.toLocaleString()} פריימים`);
       }
     };
 
-    // Callback to save each frame directly to folder during extraction
-    const onFrameReady = saveMethod === "folder" && framesDir ? async (blob: Blob, frameIndex: number) => {
-      const paddedIndex = String(frameIndex + 1).padStart(5, "0");
-      const fileName = `frame_${paddedIndex}.${settings.format}`;
+    // Callback to save each frame during extraction
+    const sceneCuts: SceneCut[] = [];
+    const subtitleFrames: SubtitleFrame[] = [];
+    const manifestFrames: ManifestFrame[] = [];
+    let method: ExtractionMethod = "seek";
+    let savedFrameCount = 0;
+    let saveFailed = false;
+    const onFrameReady: FrameReadyCallback = (encodedFrame, frameIndex) =>
+      saveFrame(encodedFrame, frameIndex).catch((e) => {
+        saveFailed = true;
+        throw e;
+      });
+    const saveFrame: FrameReadyCallback = async (encodedFrame, frameIndex) => {
+      const frame = settings.embedMetadata
+        ? {
+            ...encodedFrame,
+            blob: await embedFrameMetadata(encodedFrame.blob, {
+              source: videoFile.name,
+              pts: encodedFrame.timestamp,
+              sourceIndex: encodedFrame.sourceIndex,
+              outputIndex: frameIndex,
+            }),
+          }
+        : encodedFrame;
+      const fileName = renderFileName(settings.fileNameTemplate, {
+        video: videoFile.name,
+        index: frameIndex,
+        frame,
+        settings,
+      });
       
-      await writeBlobToFile(framesDir!, fileName, blob, signal);
-      progressUiRef.current.savedBytes += blob.size;
+      await saveOutputFile(zipWriter ? `frames/${fileName}` : fileName, frame.blob);
+      savedFrameCount++;
+      manifestFrames.push(await createManifestFrame(fileName, frame));
+      progressUiRef.current.savedBytes += frame.blob.size;
+      if (frame.sceneScore !== undefined) {
+        sceneCuts.push({ timestamp: frame.timestamp, score: frame.sceneScore, fileName });
+      }
+      if (frame.cue) {
+        subtitleFrames.push({ fileName, time: frame.requestedTime ?? frame.timestamp, cue: frame.cue });
+      }
 
       const now = performance.now();
       if (now - progressUiRef.current.lastSavedBytesUpdate > 250) {
         progressUiRef.current.lastSavedBytesUpdate = now;
         setSavedBytes(progressUiRef.current.savedBytes);
       }
-    } : undefined;
+    };
 
     try {
-      let frames: Blob[];
-      
-      // Try WebCodecs first for MP4 files. Folder export uses the sequential path so
+      // Try WebCodecs first for MP4/WebM files. Folder export uses the sequential path so
       // large videos are written one frame at a time instead of opening many file writers in parallel.
-      const isMp4 = videoFile.type === "video/mp4" || videoFile.name.toLowerCase().endsWith(".mp4");
-      const shouldUseWebCodecs = useWebCodecs && isMp4 && saveMethod !== "folder";
+      const shouldUseWebCodecs = useWebCodecs && canDemuxVideo(videoFile) && saveMethod !== "folder";
       
       if (shouldUseWebCodecs) {
         setExtractionMethod("WebCodecs (GPU מואץ)");
+        method = "webcodecs";
         try {
-          frames = await extractFramesWebCodecs(videoFile, videoInfo, settings, onProgress, signal, onFrameReady);
+          await extractFramesWebCodecs(videoFile, videoInfo, settings, onProgress, signal, onFrameReady);
         } catch (e) {
-          if (signal.aborted) throw e;
+          // Once a frame reached the output, restarting with the legacy path would write it again
+          if (signal.aborted || saveFailed || savedFrameCount > 0) throw e;
           console.warn("WebCodecs extraction failed, falling back to legacy:", e);
           setExtractionMethod("Legacy (CPU)");
+          method = "seek";
           setStatusMessage("קורא את הקובץ...");
-          frames = await extractFramesLegacy(videoInfo, settings, onProgress, signal, onFrameReady);
+          await extractFramesLegacy(videoInfo, settings, onProgress, signal, onFrameReady);
         }
       } else {
         setExtractionMethod(saveMethod === "folder" ? "שמירה רציפה לתיקייה" : "Legacy (CPU)");
-        frames = await extractFramesLegacy(videoInfo, settings, onProgress, signal, onFrameReady);
+        await extractFramesLegacy(videoInfo, settings, onProgress, signal, onFrameReady);
       }
 
-      if (!signal.aborted) {
-        if (saveMethod === "zip") {
-          setStatusMessage("יוצר קובץ ZIP...");
-          setExtractedFrames(frames);
-          
-          // Small delay to show the "creating ZIP" message
-          await new Promise(resolve => setTimeout(resolve, 300));
-          setStatusMessage("הושלם בהצלחה!");
-        } else {
-          // Frames were already saved during extraction
-          setStatusMessage("הקבצים נשמרו בהצלחה!");
-          setExtractedFrames([]);
-        }
+      if (signal.aborted) throw new DOMException("Extraction cancelled", "AbortError");
+
+      // Frames were already saved during extraction
+      const manifest = {
+        source: { name: videoFile.name, size: videoFile.size },
+        method,
+        createdAt: new Date().toISOString(),
+        settings,
+        frames: manifestFrames,
+      };
+      await saveOutputFile(MANIFEST_JSON_FILE_NAME, new Blob([buildManifestJson(manifest)], { type: "application/json" }));
+      await saveOutputFile(MANIFEST_CSV_FILE_NAME, new Blob([buildManifestCsv(manifest)], { type: "text/csv" }));
+      if (sceneCuts.length > 0) {
+        await saveOutputFile(SCENE_CUTS_FILE_NAME, new Blob([buildCutListCsv(sceneCuts)], { type: "text/csv" }));
+      }
+      if (subtitleFrames.length > 0) {
+        const manifest = buildSubtitleManifest(subtitleFrames);
+        await saveOutputFile(SUBTITLE_MANIFEST_FILE_NAME, new Blob([manifest], { type: "application/json" }));
+      }
+      if (zipWriter) {
+        setIsCreatingOutput(true);
+        setStatusMessage("מסיים את קובץ ה-ZIP...");
+        await zipWriter.close();
+        setExtractedFrameCount(savedFrameCount);
+        setStatusMessage("הושלם בהצלחה!");
+      } else {
+        setStatusMessage("הקבצים נשמרו בהצלחה!");
       }
     } catch (e) {
+      await zipWriter?.abort(e);
       if (e instanceof DOMException && e.name === "AbortError") {
         console.log("Extraction cancelled by user");
         setStatusMessage("החילוץ בוטל");
@@ -807,31 +746,51 @@ const VideoFrameExtractor = () => {
     }
   };
 
-  const downloadAsZip = async () => {
-    if (extractedFrames.length === 0) return;
+  /**
+   * Pick where the streamed ZIP goes: a file chosen with the File System Access API, a service-worker
+   * download, or (when neither is available) an in-memory Blob offered through the download button.
+   * Returns null if the user cancelled the save dialog.
+   */
+  const openZipSink = async (fileName: string): Promise<ZipSink | null> => {
+    if ("showSaveFilePicker" in window && !isInIframe()) {
+      try {
+        const handle = await (window as Window & {
+          showSaveFilePicker: (options?: {
+            suggestedName?: string;
+            types?: { description: string; accept: Record<string, string[]> }[];
+          }) => Promise<FileSystemFileHandle>;
+        }).showSaveFilePicker({
+          suggestedName: fileName,
+          types: [{ description: "ZIP", accept: { "application/zip": [".zip"] } }],
+        });
+        return await createFileHandleSink(handle);
+      } catch (err) {
+        if ((err as Error).name === "AbortError") {
+          console.log("User cancelled ZIP file selection");
+          return null;
+        }
+        console.warn("Could not open ZIP file for writing, falling back to a download:", err);
+      }
+    }
 
-    setStatusMessage("יוצר קובץ ZIP להורדה...");
+    const downloadSink = await createServiceWorkerDownloadSink(fileName);
+    if (downloadSink) return downloadSink;
 
-    const zip = new JSZip();
-    const folder = zip.folder("frames");
+    return createMemorySink((blob) => setZipBlob(blob));
+  };
 
-    extractedFrames.forEach((blob, index) => {
-      const paddedIndex = String(index + 1).padStart(5, "0");
-      folder?.file(`frame_${paddedIndex}.${settings.format}`, blob);
-    });
+  const downloadAsZip = () => {
+    if (!zipBlob) return;
 
-    const content = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(content);
+    const url = URL.createObjectURL(zipBlob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `frames_${videoFile?.name.split(".")[0] || "video"}.zip`;
+    a.download = `frames_${safeFileNamePart(videoFile?.name || "video")}.zip`;
     a.click();
     URL.revokeObjectURL(url);
-
-    setStatusMessage("הושלם בהצלחה!");
   };
 
-  const saveFramesToFolder = async (frames: Blob[]) => {
+  const saveFramesToFolder = async (frames: ExtractedFrame[]) => {
     try {
       if (!selectedDirectory) {
         throw new Error("No directory selected");
@@ -843,12 +802,16 @@ const VideoFrameExtractor = () => {
 
       // Save each frame
       for (let i = 0; i < frames.length; i++) {
-        const paddedIndex = String(i + 1).padStart(5, "0");
-        const fileName = `frame_${paddedIndex}.${settings.format}`;
+        const fileName = renderFileName(settings.fileNameTemplate, {
+          video: videoFile?.name || "video",
+          index: i,
+          frame: frames[i],
+          settings,
+        });
         
         const fileHandle = await framesDir.getFileHandle(fileName, { create: true });
         const writable = await fileHandle.createWritable();
-        await writable.write(frames[i]);
+        await writable.write(frames[i].blob);
         await writable.close();
 
         // Update progress
@@ -870,9 +833,8 @@ const VideoFrameExtractor = () => {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const estimatedFrames = videoInfo
-    ? Math.floor(videoInfo.duration * settings.fps)
-    : 0;
+  const estimatedFrames = videoInfo ? countTargetFrames(videoInfo, settings) : 0;
+  const templateIssue = validateFileNameTemplate(settings.fileNameTemplate, settings.mode);
 
   const formatBytes = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -903,13 +865,22 @@ const VideoFrameExtractor = () => {
                 : "WebCodecs לא נתמך - שימוש בשיטה רגילה"}
             </div>
           )}
-          <Link
-            to="/convert"
-            className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
-          >
-            <Video className="w-4 h-4" />
-            <span>המרת וידאו</span>
-          </Link>
+          <div className="flex justify-center gap-4">
+            <Link
+              to="/convert"
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
+            >
+              <Video className="w-4 h-4" />
+              <span>המרת וידאו</span>
+            </Link>
+            <Link
+              to="/inspect"
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors"
+            >
+              <Search className="w-4 h-4" />
+              <span>בודק מדיה</span>
+            </Link>
+          </div>
         </div>
 
         {/* Upload Zone */}
@@ -1029,6 +1000,49 @@ const VideoFrameExtractor = () => {
                 </p>
               </div>
             </div>
+            {videoTrackInfo && videoTrackInfo.samples.length > 0 && (
+              <div className="mt-6">
+                <GopCharts samples={videoTrackInfo.samples} timescale={videoTrackInfo.timescale} />
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Time Range */}
+        {videoInfo && (
+          <Card className="p-6 settings-card">
+            <div className="flex items-center gap-2 mb-6">
+              <Scissors className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-lg">טווח זמן לחילוץ</h2>
+            </div>
+            <TimeRangeSelector
+              videoUrl={videoUrl}
+              duration={videoInfo.duration}
+              start={settings.startTime}
+              end={settings.endTime}
+              onChange={(startTime, endTime) =>
+                setSettings((prev) => ({ ...prev, startTime, endTime }))
+              }
+              disabled={isExtracting}
+            />
+          </Card>
+        )}
+
+        {/* Crop */}
+        {videoInfo && (
+          <Card className="p-6 settings-card">
+            <div className="flex items-center gap-2 mb-6">
+              <Crop className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-lg">אזור חיתוך</h2>
+            </div>
+            <CropSelector
+              videoUrl={videoUrl}
+              width={videoInfo.width}
+              height={videoInfo.height}
+              crop={settings.crop}
+              onChange={(crop) => setSettings((prev) => ({ ...prev, crop }))}
+              disabled={isExtracting}
+            />
           </Card>
         )}
 
@@ -1040,29 +1054,237 @@ const VideoFrameExtractor = () => {
               <h2 className="font-semibold text-lg">הגדרות חילוץ</h2>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* FPS */}
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <Label>פריימים לשנייה (FPS)</Label>
-                  <span className="text-sm font-mono bg-muted px-2 py-1 rounded">
-                    {settings.fps} FPS
-                  </span>
-                </div>
-                <Slider
-                  value={[settings.fps]}
-                  onValueChange={([value]) =>
-                    setSettings((prev) => ({ ...prev, fps: value }))
+              {/* Mode */}
+              <div className="space-y-3 md:col-span-2">
+                <Label>מצב חילוץ</Label>
+                <Select
+                  value={settings.mode}
+                  onValueChange={(value: ExtractionMode) =>
+                    setSettings((prev) => ({ ...prev, mode: value }))
                   }
-                  min={1}
-                  max={Math.min(30, videoInfo.frameRate)}
-                  step={1}
-                  className="settings-slider"
-                />
-                <p className="text-xs text-muted-foreground">
-                  יחולצו כ-{estimatedFrames} פריימים
-                </p>
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fps">קצב קבוע (FPS)</SelectItem>
+                    <SelectItem value="everyNth">כל פריים N</SelectItem>
+                    <SelectItem value="count">מספר פריימים קבוע לאורך הטווח</SelectItem>
+                    <SelectItem value="all">כל הפריימים (קצב מקורי)</SelectItem>
+                    <SelectItem value="timestamps">רשימת חותמות זמן</SelectItem>
+                    <SelectItem value="subtitles">פריים לכל כתובית</SelectItem>
+                    <SelectItem value="keyframes">פריימי מפתח בלבד (I-frames)</SelectItem>
+                    <SelectItem value="scenes">פריים אחד לכל סצנה</SelectItem>
+                  </SelectContent>
+                </Select>
+                {settings.mode === "keyframes" && (
+                  <p className="text-xs text-muted-foreground">
+                    {videoInfo.keyframeTimes
+                      ? `יחולצו ${estimatedFrames} פריימי מפתח, עם חותמת הזמן המקורית בשם הקובץ`
+                      : "מצב זה זמין רק לקבצי MP4 ו-WebM"}
+                  </p>
+                )}
+                {settings.mode === "all" && (
+                  <p className="text-xs text-muted-foreground">
+                    יחולצו כ-{estimatedFrames} פריימים, כל פריים בסרטון
+                  </p>
+                )}
+                {settings.mode === "scenes" && (
+                  <p className="text-xs text-muted-foreground">
+                    יחולץ פריים בכל החלפת סצנה, ורשימת החיתוכים תישמר לצד התמונות ({SCENE_CUTS_FILE_NAME})
+                  </p>
+                )}
               </div>
 
+              {/* Scene detection */}
+              {settings.mode === "scenes" && (
+                <>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <Label>רגישות לשינוי</Label>
+                      <span className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                        {Math.round(settings.sceneThreshold * 100)}%
+                      </span>
+                    </div>
+                    <Slider
+                      value={[settings.sceneThreshold * 100]}
+                      onValueChange={([value]) =>
+                        setSettings((prev) => ({ ...prev, sceneThreshold: value / 100 }))
+                      }
+                      min={1}
+                      max={60}
+                      step={1}
+                      className="settings-slider"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      ערך נמוך יזהה גם שינויים עדינים
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <Label>מרווח מינימלי בין סצנות</Label>
+                      <span className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                        {settings.sceneMinGap} שנ׳
+                      </span>
+                    </div>
+                    <Slider
+                      value={[settings.sceneMinGap]}
+                      onValueChange={([value]) =>
+                        setSettings((prev) => ({ ...prev, sceneMinGap: value }))
+                      }
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      className="settings-slider"
+                    />
+                  </div>
+                </>
+              )}
+
+              {/* Frame index */}
+              {settings.mode === "everyNth" && (
+                <div className="space-y-3">
+                  <Label htmlFor="frame-step">פריים אחד מכל</Label>
+                  <Input
+                    id="frame-step"
+                    type="number"
+                    min={1}
+                    value={settings.frameStep}
+                    onChange={(e) =>
+                      setSettings((prev) => ({ ...prev, frameStep: Math.max(1, Number(e.target.value) || 1) }))
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    יחולצו כ-{estimatedFrames} פריימים, לפי סדר הפריימים ולא לפי זמן
+                  </p>
+                </div>
+              )}
+              {settings.mode === "count" && (
+                <div className="space-y-3">
+                  <Label htmlFor="total-frames">מספר פריימים</Label>
+                  <Input
+                    id="total-frames"
+                    type="number"
+                    min={1}
+                    value={settings.totalFrames}
+                    onChange={(e) =>
+                      setSettings((prev) => ({ ...prev, totalFrames: Math.max(1, Number(e.target.value) || 1) }))
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    יחולצו {estimatedFrames} פריימים במרווחים שווים לאורך הטווח
+                  </p>
+                </div>
+              )}
+
+              {/* Timestamp list */}
+              {settings.mode === "timestamps" && (
+                <div className="space-y-3 md:col-span-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="timestamp-list">חותמות זמן</Label>
+                    <Button variant="outline" size="sm" onClick={() => timestampFileInputRef.current?.click()}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      טען מקובץ
+                    </Button>
+                    <input
+                      ref={timestampFileInputRef}
+                      type="file"
+                      accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+                      className="hidden"
+                      onChange={handleTimestampFileSelect}
+                    />
+                  </div>
+                  <Textarea
+                    id="timestamp-list"
+                    dir="ltr"
+                    rows={5}
+                    className="font-mono"
+                    placeholder={"12.5\n00:01:03.250\n00:02:10:12"}
+                    value={timestampText}
+                    onChange={(e) => applyTimestampText(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    שורה לכל זמן: שניות, HH:MM:SS.mmm או קוד זמן SMPTE. אפשר גם CSV (עמודה ראשונה) או JSON.
+                    {" "}{estimatedFrames} מתוך {settings.timestamps.length} הזמנים נמצאים בטווח הנבחר
+                  </p>
+                  {invalidTimestamps.length > 0 && (
+                    <p className="text-xs text-destructive">
+                      {invalidTimestamps.length} לא זוהו: {invalidTimestamps.slice(0, 5).join(", ")}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Subtitle cues */}
+              {settings.mode === "subtitles" && (
+                <div className="space-y-3 md:col-span-2">
+                  <Label>מקור הכתוביות</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {subtitleTracks.length > 0 && (
+                      <Select
+                        value={subtitleTracks.some((track) => String(track.id) === subtitleSource) ? subtitleSource : ""}
+                        onValueChange={loadSubtitleTrack}
+                        disabled={isLoadingSubtitles}
+                      >
+                        <SelectTrigger className="w-auto min-w-48">
+                          <SelectValue placeholder="רצועה מתוך הסרטון" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {subtitleTracks.map((track) => (
+                            <SelectItem key={track.id} value={String(track.id)}>
+                              #{track.id} {track.codec}{track.language ? ` (${track.language})` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button variant="outline" onClick={() => subtitleFileInputRef.current?.click()}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      טען קובץ SRT / WebVTT
+                    </Button>
+                    <input
+                      ref={subtitleFileInputRef}
+                      type="file"
+                      accept=".srt,.vtt,text/vtt"
+                      className="hidden"
+                      onChange={handleSubtitleFileSelect}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {isLoadingSubtitles
+                      ? "קורא כתוביות..."
+                      : subtitleSource
+                      ? `נטענו ${settings.subtitleCues.length} כתוביות, ${estimatedFrames} מהן בטווח הנבחר. יחולץ פריים מאמצע כל כתובית, והטקסט יישמר לצד התמונות (${SUBTITLE_MANIFEST_FILE_NAME})`
+                      : "בחרו רצועת כתוביות או טענו קובץ"}
+                  </p>
+                </div>
+              )}
+
+              {/* FPS */}
+              {settings.mode === "fps" && (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <Label>פריימים לשנייה (FPS)</Label>
+                    <span className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                      {settings.fps} FPS
+                    </span>
+                  </div>
+                  <Slider
+                    value={[settings.fps]}
+                    onValueChange={([value]) =>
+                      setSettings((prev) => ({ ...prev, fps: value }))
+                    }
+                    min={1}
+                    max={Math.min(30, videoInfo.frameRate)}
+                    step={1}
+                    className="settings-slider"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    יחולצו כ-{estimatedFrames} פריימים
+                  </p>
+                </div>
+              )}
+
               {/* Resolution */}
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
@@ -1082,8 +1304,9 @@ const VideoFrameExtractor = () => {
                   className="settings-slider"
                 />
                 <p className="text-xs text-muted-foreground">
-                  {Math.round(videoInfo.width * (settings.resolution / 100))}×
-                  {Math.round(videoInfo.height * (settings.resolution / 100))}
+                  {getOutputSize(videoInfo.width, videoInfo.height, settings).width}×
+                  {getOutputSize(videoInfo.width, videoInfo.height, settings).height}
+                  {settings.crop && " (אחרי חיתוך)"}
                 </p>
               </div>
 
@@ -1101,7 +1324,7 @@ const VideoFrameExtractor = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="zip">💾 קובץ ZIP (מומלץ לקבצים קטנים)</SelectItem>
+                    <SelectItem value="zip">💾 קובץ ZIP (נכתב תוך כדי החילוץ)</SelectItem>
                     <SelectItem value="folder">📁 שמירה ישירה לתיקייה (לווידאו גדולים)</SelectItem>
                   </SelectContent>
                 </Select>
@@ -1155,6 +1378,41 @@ const VideoFrameExtractor = () => {
                   />
                 </div>
               )}
+
+              {/* File names */}
+              <div className="space-y-3 md:col-span-2">
+                <Label htmlFor="file-name-template">תבנית שם קובץ</Label>
+                <Input
+                  id="file-name-template"
+                  dir="ltr"
+                  className="font-mono"
+                  placeholder={getDefaultFileNameTemplate(settings.mode)}
+                  value={settings.fileNameTemplate}
+                  onChange={(e) => setSettings((prev) => ({ ...prev, fileNameTemplate: e.target.value }))}
+                />
+                {templateIssue ? (
+                  <p className="text-xs text-destructive">{describeTemplateIssue(templateIssue)}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    תגים זמינים: {FILE_NAME_TOKENS.map((token) => `{${token}}`).join(" ")}. אפשר לרפד מספרים, למשל {"{index:05}"}
+                  </p>
+                )}
+              </div>
+
+              {/* Metadata */}
+              <div className="flex items-center justify-between gap-4 md:col-span-2">
+                <div className="space-y-1">
+                  <Label htmlFor="embed-metadata">הטמעת מקור בקבצי התמונה</Label>
+                  <p className="text-xs text-muted-foreground">
+                    שם הסרטון, זמן ההצגה ומספר הפריים נשמרים בתוך כל תמונה (PNG tEXt/iTXt, JPEG EXIF/XMP, WebP XMP)
+                  </p>
+                </div>
+                <Switch
+                  id="embed-metadata"
+                  checked={settings.embedMetadata}
+                  onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, embedMetadata: checked }))}
+                />
+              </div>
             </div>
           </Card>
         )}
@@ -1196,15 +1454,15 @@ const VideoFrameExtractor = () => {
                 </div>
               )}
 
-              {extractedFrames.length > 0 && !isExtracting && !isCreatingOutput && (
+              {extractedFrameCount > 0 && !isExtracting && !isCreatingOutput && (
                 <div className="extracted-summary flex items-center gap-3 p-4 rounded-lg">
                   <ImageIcon className="w-8 h-8 text-success" />
                   <div>
                     <p className="font-medium">
-                      חולצו {extractedFrames.length} פריימים בהצלחה!
+                      חולצו {extractedFrameCount} פריימים בהצלחה!
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      מוכן להורדה כקובץ ZIP
+                      {zipBlob ? "מוכן להורדה כקובץ ZIP" : "קובץ ה-ZIP נשמר"}
                       {extractionMethod && ` • שיטה: ${extractionMethod}`}
                     </p>
                   </div>
@@ -1249,7 +1507,7 @@ const VideoFrameExtractor = () => {
                 ) : (
                   <Button
                     onClick={extractFrames}
-                    disabled={!videoFile}
+                    disabled={!videoFile || estimatedFrames === 0 || templateIssue !== null}
                     className="extract-button flex-1"
                     size="lg"
                   >
@@ -1261,7 +1519,7 @@ const VideoFrameExtractor = () => {
                   </Button>
                 )}
 
-                {extractedFrames.length > 0 && !isExtracting && (
+                {zipBlob && !isExtracting && (
                   <Button
                     onClick={downloadAsZip}
                     variant="secondary"
@@ -1269,7 +1527,7 @@ const VideoFrameExtractor = () => {
                     size="lg"
                   >
                     <Download className="w-4 h-4 mr-2" />
-                    הורד ZIP ({extractedFrames.length} פריימים)
+                    הורד ZIP ({extractedFrameCount} פריימים)
                   </Button>
                 )}
               </div>
@@ -0,0 +1,184 @@
+import * as MP4Box from "mp4box";
+import { appendFileToMp4Box, getAudioDecoderConfig } from "@/lib/mp4-demux";
+
+export interface AudioTranscodeOptions {
+  /** WebCodecs codec string for the encoder, e.g. "mp4a.40.2" or "opus" */
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  /** Target bitrate in bits per second */
+  bitrate: number;
+}
+
+/**
+ * Streaming linear-interpolation resampler for planar float audio.
+ * Keeps the last input sample of each block so consecutive blocks join without clicks.
+ */
+export const createLinearResampler = (inputRate: number, outputRate: number, numberOfChannels: number) => {
+  const step = inputRate / outputRate;
+  const previous = new Float32Array(numberOfChannels);
+  // Read position for the next output sample, relative to the start of the next input block
+  let position = 0;
+
+  const process = (planes: Float32Array[]) => {
+    if (inputRate === outputRate) return planes;
+    const length = planes[0]?.length ?? 0;
+    if (length === 0) return planes.map(() => new Float32Array(0));
+
+    const count = Math.max(0, Math.floor((length - 1 - position) / step) + 1);
+    const output = planes.map((plane, channel) => {
+      const out = new Float32Array(count);
+      for (let i = 0; i < count; i++) {
+        const readPosition = position + i * step;
+        const index = Math.floor(readPosition);
+        const fraction = readPosition - index;
+        const from = index < 0 ? previous[channel] : plane[index];
+        const to = plane[index + 1] ?? from;
+        out[i] = from + (to - from) * fraction;
+      }
+      previous[channel] = plane[length - 1];
+      return out;
+    });
+
+    position += count * step - length;
+    return output;
+  };
+
+  return { process };
+};
+
+/**
+ * Decode the first audio track of an MP4 file, resample it and re-encode it with AudioEncoder.
+ * Resolves to false when the file has no audio track.
+ */
+export const transcodeMp4Audio = async (
+  file: File,
+  options: AudioTranscodeOptions,
+  onChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void,
+  signal?: AbortSignal,
+  onProgress?: (progress: number) => void
+): Promise<boolean> => {
+  const { codec, sampleRate, numberOfChannels, bitrate } = options;
+  const mp4boxFile = MP4Box.createFile();
+
+  // Errors raised inside WebCodecs/mp4box callbacks are surfaced after the next await
+  let failure: unknown = null;
+  const fail = (e: unknown) => {
+    failure ??= e;
+  };
+
+  const encoder = new AudioEncoder({ output: onChunk, error: fail });
+  encoder.configure({ codec, sampleRate, numberOfChannels, bitrate });
+
+  let resampler: ReturnType<typeof createLinearResampler> | null = null;
+  let firstTimestamp = 0;
+  let encodedFrames = 0;
+
+  const encodePlanes = (planes: Float32Array[]) => {
+    const numberOfFrames = planes[0]?.length ?? 0;
+    if (numberOfFrames === 0) return;
+
+    const data = new Float32Array(numberOfFrames * numberOfChannels);
+    planes.forEach((plane, channel) => data.set(plane, channel * numberOfFrames));
+
+    const audioData = new AudioData({
+      format: "f32-planar",
+      sampleRate,
+      numberOfFrames,
+      numberOfChannels,
+      timestamp: firstTimestamp + Math.round((encodedFrames / sampleRate) * 1000000),
+      data,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+    encodedFrames += numberOfFrames;
+  };
+
+  const decoder = new AudioDecoder({
+    output: (audioData: AudioData) => {
+      try {
+        if (!resampler) {
+          // The decoded rate can differ from the sample entry (e.g. HE-AAC), so trust the output
+          resampler = createLinearResampler(audioData.sampleRate, sampleRate, numberOfChannels);
+          firstTimestamp = audioData.timestamp;
+        }
+        const planes = Array.from({ length: numberOfChannels }, (_, channel) => {
+          const plane = new Float32Array(audioData.numberOfFrames);
+          // Mono sources are duplicated into every output channel; extra source channels are dropped
+          audioData.copyTo(plane, {
+            planeIndex: Math.min(channel, audioData.numberOfChannels - 1),
+            format: "f32-planar",
+          });
+          return plane;
+        });
+        encodePlanes(resampler.process(planes));
+      } catch (e) {
+        fail(e);
+      } finally {
+        audioData.close();
+      }
+    },
+    error: fail,
+  });
+
+  let hasAudio = false;
+  let totalSamples = 0;
+  let demuxedSamples = 0;
+
+  mp4boxFile.onReady = (info: MP4Box.Movie) => {
+    const track = info.audioTracks[0];
+    if (!track) return;
+
+    const config = getAudioDecoderConfig(mp4boxFile, track);
+    if (!config) {
+      fail(new Error(`Audio codec ${track.codec} is not supported`));
+      return;
+    }
+
+    hasAudio = true;
+    totalSamples = track.nb_samples;
+    try {
+      decoder.configure(config);
+      mp4boxFile.setExtractionOptions(track.id, null, { nbSamples: 100 });
+      mp4boxFile.start();
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  mp4boxFile.onSamples = (trackId: number, _user: unknown, samples: MP4Box.Sample[]) => {
+    for (const sample of samples) {
+      try {
+        decoder.decode(new EncodedAudioChunk({
+          type: "key",
+          timestamp: Math.floor((sample.cts / sample.timescale) * 1000000),
+          duration: Math.floor((sample.duration / sample.timescale) * 1000000),
+          data: sample.data!,
+        }));
+      } catch (e) {
+        fail(e);
+        return;
+      }
+    }
+    demuxedSamples += samples.length;
+    onProgress?.(Math.min(100, (demuxedSamples / totalSamples) * 100));
+    // Let mp4box drop the buffers of samples we've already handed to the decoder
+    mp4boxFile.releaseUsedSamples(trackId, samples[samples.length - 1].number + 1);
+  };
+
+  mp4boxFile.onError = (_module: string, message: string) => fail(new Error(message));
+
+  try {
+    await appendFileToMp4Box(file, mp4boxFile, signal);
+    if (failure) throw failure;
+    if (!hasAudio) return false;
+
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+    return true;
+  } finally {
+    if (decoder.state !== "closed") decoder.close();
+    if (encoder.state !== "closed") encoder.close();
+  }
+};
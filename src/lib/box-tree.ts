@@ -0,0 +1,64 @@
+import type * as MP4Box from "mp4box";
+
+// Flatten mp4box's parsed boxes into a plain tree the inspector can render and slice raw bytes from
+
+export interface BoxField {
+  name: string;
+  value: string;
+}
+
+export interface BoxNode {
+  type: string;
+  /** Byte offset of the box header in the file */
+  start: number;
+  /** Total size including the header */
+  size: number;
+  headerSize: number;
+  fields: BoxField[];
+  children: BoxNode[];
+}
+
+// Bookkeeping properties mp4box adds to every box, and the ones holding child boxes
+const HIDDEN_FIELDS = new Set([
+  "type", "start", "size", "hdr_size", "box_name", "original_size", "sizePosition", "has_unparsed_data",
+  "boxes", "entries", "data", "subBoxNames",
+]);
+const MAX_ARRAY_ITEMS = 16;
+
+const formatFieldValue = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    // Arrays of boxes or NAL units are shown as children or decoded elsewhere
+    if (items.some((item) => typeof item === "object" && item !== null)) return undefined;
+    if (items.length <= MAX_ARRAY_ITEMS) return `[${items.join(", ")}]`;
+    return `[${items.slice(0, MAX_ARRAY_ITEMS).join(", ")}, … ${items.length.toLocaleString()} total]`;
+  }
+  return undefined;
+};
+
+const toBoxNode = (box: MP4Box.Box): BoxNode => {
+  const fields: BoxField[] = [];
+  for (const [name, value] of Object.entries(box)) {
+    if (HIDDEN_FIELDS.has(name)) continue;
+    const formatted = formatFieldValue(value);
+    if (formatted !== undefined) fields.push({ name, value: formatted });
+  }
+  // Sample entries live in stsd's `entries` rather than `boxes`
+  const { entries } = box as MP4Box.Box & { entries?: MP4Box.Box[] };
+  return {
+    type: box.type,
+    start: box.start ?? 0,
+    size: box.size,
+    headerSize: box.hdr_size ?? 8,
+    fields,
+    children: [...(box.boxes ?? []), ...(entries ?? [])].map(toBoxNode),
+  };
+};
+
+/** The top-level boxes mp4box has parsed, with their descendants */
+export const getBoxTree = (mp4boxFile: MP4Box.ISOFile): BoxNode[] => mp4boxFile.boxes.map(toBoxNode);
+
+/** The raw bytes of a box, header included */
+export const sliceBox = (file: Blob, box: BoxNode) => file.slice(box.start, box.start + box.size);
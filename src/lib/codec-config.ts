@@ -0,0 +1,343 @@
+// Decode codec configuration records (avcC, hvcC, av1C) and the parameter sets inside them
+// field by field, for the inspector. Only the leading fields of SPS/PPS are read: enough to
+// explain a decoder config, not a full bitstream parser.
+
+export interface ConfigField {
+  name: string;
+  value: string | number;
+}
+
+export interface ConfigSection {
+  title: string;
+  fields: ConfigField[];
+}
+
+// Drop the emulation prevention bytes (00 00 03 -> 00 00) so the payload can be read bit by bit
+const unescapeRbsp = (nal: Uint8Array) => {
+  const out: number[] = [];
+  let zeros = 0;
+  for (const byte of nal) {
+    if (zeros >= 2 && byte === 3) {
+      zeros = 0;
+      continue;
+    }
+    zeros = byte === 0 ? zeros + 1 : 0;
+    out.push(byte);
+  }
+  return new Uint8Array(out);
+};
+
+const createBitReader = (data: Uint8Array) => {
+  let position = 0;
+  const bit = () => {
+    if (position >= data.length * 8) throw new Error("Truncated NAL unit");
+    const value = (data[position >> 3] >> (7 - (position & 7))) & 1;
+    position++;
+    return value;
+  };
+  const bits = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = value * 2 + bit();
+    return value;
+  };
+  // Exp-Golomb codes
+  const ue = () => {
+    let leadingZeros = 0;
+    while (bit() === 0) {
+      if (++leadingZeros > 31) throw new Error("Invalid Exp-Golomb code");
+    }
+    return 2 ** leadingZeros - 1 + bits(leadingZeros);
+  };
+  const se = () => {
+    const value = ue();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  };
+  return { bit, bits, ue, se, skip: (count: number) => void bits(count) };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+const hexBytes = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(" ");
+
+// Collect fields as far as the data allows, noting where it stopped
+const parseFields = (parse: (add: (name: string, value: string | number) => void) => void) => {
+  const fields: ConfigField[] = [];
+  try {
+    parse((name, value) => fields.push({ name, value }));
+  } catch (error) {
+    fields.push({ name: "error", value: error instanceof Error ? error.message : String(error) });
+  }
+  return fields;
+};
+
+// Profiles whose SPS carries chroma format and bit depth (H.264 7.3.2.1.1)
+const AVC_HIGH_PROFILES = new Set([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135]);
+const CHROMA_FORMATS = ["4:0:0", "4:2:0", "4:2:2", "4:4:4"];
+
+const skipAvcScalingList = (reader: BitReader, size: number) => {
+  let lastScale = 8;
+  let nextScale = 8;
+  for (let j = 0; j < size; j++) {
+    if (nextScale !== 0) nextScale = (lastScale + reader.se() + 256) % 256;
+    lastScale = nextScale === 0 ? lastScale : nextScale;
+  }
+};
+
+const decodeAvcSps = (nal: Uint8Array) =>
+  parseFields((add) => {
+    const reader = createBitReader(unescapeRbsp(nal.subarray(1)));
+    const profileIdc = reader.bits(8);
+    add("profile_idc", profileIdc);
+    add("constraint_set_flags", `0b${reader.bits(8).toString(2).padStart(8, "0")}`);
+    add("level_idc", reader.bits(8));
+    add("seq_parameter_set_id", reader.ue());
+
+    let chromaFormatIdc = 1;
+    if (AVC_HIGH_PROFILES.has(profileIdc)) {
+      chromaFormatIdc = reader.ue();
+      add("chroma_format_idc", `${chromaFormatIdc} (${CHROMA_FORMATS[chromaFormatIdc] ?? "?"})`);
+      if (chromaFormatIdc === 3) add("separate_colour_plane_flag", reader.bit());
+      add("bit_depth_luma", reader.ue() + 8);
+      add("bit_depth_chroma", reader.ue() + 8);
+      add("qpprime_y_zero_transform_bypass_flag", reader.bit());
+      const scalingMatrixPresent = reader.bit();
+      add("seq_scaling_matrix_present_flag", scalingMatrixPresent);
+      if (scalingMatrixPresent) {
+        for (let i = 0; i < (chromaFormatIdc !== 3 ? 8 : 12); i++) {
+          if (reader.bit()) skipAvcScalingList(reader, i < 6 ? 16 : 64);
+        }
+      }
+    }
+
+    add("log2_max_frame_num", reader.ue() + 4);
+    const picOrderCntType = reader.ue();
+    add("pic_order_cnt_type", picOrderCntType);
+    if (picOrderCntType === 0) {
+      add("log2_max_pic_order_cnt_lsb", reader.ue() + 4);
+    } else if (picOrderCntType === 1) {
+      add("delta_pic_order_always_zero_flag", reader.bit());
+      add("offset_for_non_ref_pic", reader.se());
+      add("offset_for_top_to_bottom_field", reader.se());
+      const cycleLength = reader.ue();
+      add("num_ref_frames_in_pic_order_cnt_cycle", cycleLength);
+      for (let i = 0; i < cycleLength; i++) reader.se();
+    }
+    add("max_num_ref_frames", reader.ue());
+    add("gaps_in_frame_num_value_allowed_flag", reader.bit());
+
+    const widthInMbs = reader.ue() + 1;
+    const heightInMapUnits = reader.ue() + 1;
+    const frameMbsOnly = reader.bit();
+    add("pic_width_in_mbs", widthInMbs);
+    add("pic_height_in_map_units", heightInMapUnits);
+    add("frame_mbs_only_flag", frameMbsOnly);
+    if (!frameMbsOnly) add("mb_adaptive_frame_field_flag", reader.bit());
+    add("direct_8x8_inference_flag", reader.bit());
+
+    const crop = { left: 0, right: 0, top: 0, bottom: 0 };
+    const cropping = reader.bit();
+    add("frame_cropping_flag", cropping);
+    if (cropping) {
+      crop.left = reader.ue();
+      crop.right = reader.ue();
+      crop.top = reader.ue();
+      crop.bottom = reader.ue();
+      add("frame_crop_offsets", `${crop.left} ${crop.right} ${crop.top} ${crop.bottom}`);
+    }
+    add("vui_parameters_present_flag", reader.bit());
+
+    // Crop offsets count in chroma samples, and in field pairs for interlaced streams
+    const cropUnitX = chromaFormatIdc === 1 || chromaFormatIdc === 2 ? 2 : 1;
+    const cropUnitY = (chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly);
+    const width = widthInMbs * 16 - cropUnitX * (crop.left + crop.right);
+    const height = (2 - frameMbsOnly) * heightInMapUnits * 16 - cropUnitY * (crop.top + crop.bottom);
+    add("→ size", `${width}×${height}`);
+  });
+
+const decodeAvcPps = (nal: Uint8Array) =>
+  parseFields((add) => {
+    const reader = createBitReader(unescapeRbsp(nal.subarray(1)));
+    add("pic_parameter_set_id", reader.ue());
+    add("seq_parameter_set_id", reader.ue());
+    add("entropy_coding_mode_flag", reader.bit() ? "1 (CABAC)" : "0 (CAVLC)");
+    add("bottom_field_pic_order_in_frame_present_flag", reader.bit());
+    const sliceGroups = reader.ue() + 1;
+    add("num_slice_groups", sliceGroups);
+    // Slice group maps are a Baseline-only FMO feature; stop rather than parse them
+    if (sliceGroups > 1) return;
+    add("num_ref_idx_l0_default_active", reader.ue() + 1);
+    add("num_ref_idx_l1_default_active", reader.ue() + 1);
+    add("weighted_pred_flag", reader.bit());
+    add("weighted_bipred_idc", reader.bits(2));
+    add("pic_init_qp", reader.se() + 26);
+    add("pic_init_qs", reader.se() + 26);
+    add("chroma_qp_index_offset", reader.se());
+    add("deblocking_filter_control_present_flag", reader.bit());
+    add("constrained_intra_pred_flag", reader.bit());
+    add("redundant_pic_cnt_present_flag", reader.bit());
+  });
+
+/** AVCDecoderConfigurationRecord followed by each SPS and PPS it carries */
+export const decodeAvcConfig = (avcC: Uint8Array): ConfigSection[] => {
+  const sections: ConfigSection[] = [];
+  const nalUnits: { type: "SPS" | "PPS"; nal: Uint8Array }[] = [];
+  sections.push({
+    title: "avcC",
+    fields: parseFields((add) => {
+      if (avcC.length < 7) throw new Error("Truncated avcC");
+      add("configurationVersion", avcC[0]);
+      add("AVCProfileIndication", avcC[1]);
+      add("profile_compatibility", `0x${avcC[2].toString(16).padStart(2, "0")}`);
+      add("AVCLevelIndication", avcC[3]);
+      add("lengthSizeMinusOne", avcC[4] & 0x03);
+      let offset = 5;
+      const readNalUnits = (type: "SPS" | "PPS", count: number) => {
+        for (let i = 0; i < count; i++) {
+          const length = (avcC[offset] << 8) | avcC[offset + 1];
+          if (offset + 2 + length > avcC.length) throw new Error(`Truncated ${type}`);
+          nalUnits.push({ type, nal: avcC.subarray(offset + 2, offset + 2 + length) });
+          offset += 2 + length;
+        }
+      };
+      const spsCount = avcC[offset++] & 0x1f;
+      add("numOfSequenceParameterSets", spsCount);
+      readNalUnits("SPS", spsCount);
+      const ppsCount = avcC[offset++];
+      add("numOfPictureParameterSets", ppsCount);
+      readNalUnits("PPS", ppsCount);
+    }),
+  });
+
+  for (const type of ["SPS", "PPS"] as const) {
+    nalUnits.filter((unit) => unit.type === type).forEach(({ nal }, index) => {
+      const fields = type === "SPS" ? decodeAvcSps(nal) : decodeAvcPps(nal);
+      sections.push({ title: `${type} #${index + 1} (${nal.length} bytes)`, fields: [{ name: "bytes", value: hexBytes(nal) }, ...fields] });
+    });
+  }
+  return sections;
+};
+
+const HEVC_NAL_TYPES: Record<number, string> = { 32: "VPS", 33: "SPS", 34: "PPS", 39: "SEI (prefix)", 40: "SEI (suffix)" };
+
+const skipHevcProfileTierLevel = (reader: BitReader, maxSubLayersMinus1: number) => {
+  reader.skip(88 + 8); // general profile/tier/flags and general_level_idc
+  const subLayers: { profile: number; level: number }[] = [];
+  for (let i = 0; i < maxSubLayersMinus1; i++) subLayers.push({ profile: reader.bit(), level: reader.bit() });
+  if (maxSubLayersMinus1 > 0) reader.skip(2 * (8 - maxSubLayersMinus1));
+  for (const { profile, level } of subLayers) reader.skip(profile * 88 + level * 8);
+};
+
+const decodeHevcSps = (nal: Uint8Array) =>
+  parseFields((add) => {
+    const reader = createBitReader(unescapeRbsp(nal.subarray(2)));
+    add("sps_video_parameter_set_id", reader.bits(4));
+    const maxSubLayersMinus1 = reader.bits(3);
+    add("sps_max_sub_layers", maxSubLayersMinus1 + 1);
+    add("sps_temporal_id_nesting_flag", reader.bit());
+    skipHevcProfileTierLevel(reader, maxSubLayersMinus1);
+    add("sps_seq_parameter_set_id", reader.ue());
+    const chromaFormatIdc = reader.ue();
+    add("chroma_format_idc", `${chromaFormatIdc} (${CHROMA_FORMATS[chromaFormatIdc] ?? "?"})`);
+    if (chromaFormatIdc === 3) add("separate_colour_plane_flag", reader.bit());
+    add("pic_width_in_luma_samples", reader.ue());
+    add("pic_height_in_luma_samples", reader.ue());
+    const conformanceWindow = reader.bit();
+    add("conformance_window_flag", conformanceWindow);
+    if (conformanceWindow) {
+      add("conf_win_offsets", `${reader.ue()} ${reader.ue()} ${reader.ue()} ${reader.ue()}`);
+    }
+    add("bit_depth_luma", reader.ue() + 8);
+    add("bit_depth_chroma", reader.ue() + 8);
+    add("log2_max_pic_order_cnt_lsb", reader.ue() + 4);
+  });
+
+/** HEVCDecoderConfigurationRecord followed by its parameter set arrays, with SPS fields decoded */
+export const decodeHevcConfig = (hvcC: Uint8Array): ConfigSection[] => {
+  const sections: ConfigSection[] = [];
+  const arrays: { type: number; complete: number; nalUnits: Uint8Array[] }[] = [];
+  sections.push({
+    title: "hvcC",
+    fields: parseFields((add) => {
+      if (hvcC.length < 23) throw new Error("Truncated hvcC");
+      const view = new DataView(hvcC.buffer, hvcC.byteOffset, hvcC.byteLength);
+      add("configurationVersion", hvcC[0]);
+      add("general_profile_space", hvcC[1] >> 6);
+      add("general_tier_flag", `${(hvcC[1] >> 5) & 1} (${hvcC[1] & 0x20 ? "High" : "Main"})`);
+      add("general_profile_idc", hvcC[1] & 0x1f);
+      add("general_profile_compatibility_flags", `0x${view.getUint32(2).toString(16).padStart(8, "0")}`);
+      add("general_constraint_indicator_flags", hexBytes(hvcC.subarray(6, 12)));
+      add("general_level_idc", `${hvcC[12]} (${hvcC[12] / 30})`);
+      add("min_spatial_segmentation_idc", view.getUint16(13) & 0x0fff);
+      add("parallelismType", hvcC[15] & 0x03);
+      add("chromaFormat", `${hvcC[16] & 0x03} (${CHROMA_FORMATS[hvcC[16] & 0x03]})`);
+      add("bitDepthLuma", (hvcC[17] & 0x07) + 8);
+      add("bitDepthChroma", (hvcC[18] & 0x07) + 8);
+      add("avgFrameRate", view.getUint16(19));
+      add("constantFrameRate", hvcC[21] >> 6);
+      add("numTemporalLayers", (hvcC[21] >> 3) & 0x07);
+      add("temporalIdNested", (hvcC[21] >> 2) & 1);
+      add("lengthSizeMinusOne", hvcC[21] & 0x03);
+      const arrayCount = hvcC[22];
+      add("numOfArrays", arrayCount);
+
+      let offset = 23;
+      for (let i = 0; i < arrayCount; i++) {
+        if (offset + 3 > hvcC.length) throw new Error("Truncated NAL unit array");
+        const array = { type: hvcC[offset] & 0x3f, complete: hvcC[offset] >> 7, nalUnits: [] as Uint8Array[] };
+        const count = view.getUint16(offset + 1);
+        offset += 3;
+        for (let j = 0; j < count; j++) {
+          const length = view.getUint16(offset);
+          if (offset + 2 + length > hvcC.length) throw new Error("Truncated NAL unit");
+          array.nalUnits.push(hvcC.subarray(offset + 2, offset + 2 + length));
+          offset += 2 + length;
+        }
+        arrays.push(array);
+      }
+    }),
+  });
+
+  for (const { type, complete, nalUnits } of arrays) {
+    const name = HEVC_NAL_TYPES[type] ?? `NAL type ${type}`;
+    nalUnits.forEach((nal, index) => {
+      const fields: ConfigField[] = [
+        { name: "array_completeness", value: complete },
+        { name: "bytes", value: hexBytes(nal) },
+      ];
+      if (type === 33) fields.push(...decodeHevcSps(nal));
+      sections.push({ title: `${name} #${index + 1} (${nal.length} bytes)`, fields });
+    });
+  }
+  return sections;
+};
+
+/** AV1CodecConfigurationRecord */
+export const decodeAv1Config = (av1C: Uint8Array): ConfigSection[] => [
+  {
+    title: "av1C",
+    fields: parseFields((add) => {
+      if (av1C.length < 4) throw new Error("Truncated av1C");
+      add("marker", av1C[0] >> 7);
+      add("version", av1C[0] & 0x7f);
+      add("seq_profile", av1C[1] >> 5);
+      add("seq_level_idx_0", av1C[1] & 0x1f);
+      add("seq_tier_0", av1C[2] >> 7);
+      add("high_bitdepth", (av1C[2] >> 6) & 1);
+      add("twelve_bit", (av1C[2] >> 5) & 1);
+      add("monochrome", (av1C[2] >> 4) & 1);
+      add("chroma_subsampling_x", (av1C[2] >> 3) & 1);
+      add("chroma_subsampling_y", (av1C[2] >> 2) & 1);
+      add("chroma_sample_position", av1C[2] & 0x03);
+      add("initial_presentation_delay_present", (av1C[3] >> 4) & 1);
+      add("configOBUs", av1C.length > 4 ? hexBytes(av1C.subarray(4)) : "—");
+    }),
+  },
+];
+
+/** Decode the `description` of a decoder config, for the codecs whose record this module knows */
+export const decodeDecoderConfig = (codec: string, description: Uint8Array): ConfigSection[] => {
+  if (codec.startsWith("avc1") || codec.startsWith("avc3")) return decodeAvcConfig(description);
+  if (codec.startsWith("hvc1") || codec.startsWith("hev1")) return decodeHevcConfig(description);
+  if (codec.startsWith("av01")) return decodeAv1Config(description);
+  return [];
+};
@@ -0,0 +1,111 @@
+// Build WebCodecs codec strings from the codec configuration records stored in containers
+
+const hex = (value: number) => value.toString(16).padStart(2, "0");
+const twoDigits = (value: number) => String(value).padStart(2, "0");
+
+/** "avc1.PPCCLL" from an AVCDecoderConfigurationRecord (avcC) */
+export const avcCodecStringFromConfig = (avcC: Uint8Array) =>
+  `avc1.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`;
+
+/** "av01.P.LLT.DD" from an AV1CodecConfigurationRecord (av1C) */
+export const av1CodecStringFromConfig = (av1C: Uint8Array) => {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = av1C[2] & 0x80 ? "H" : "M";
+  const highBitdepth = (av1C[2] >> 6) & 1;
+  const twelveBit = (av1C[2] >> 5) & 1;
+  const bitDepth = twelveBit ? 12 : highBitdepth ? 10 : 8;
+  return `av01.${profile}.${twoDigits(level)}${tier}.${twoDigits(bitDepth)}`;
+};
+
+/** "vp09.PP.LL.DD" */
+export const vp9CodecString = (profile: number, level = 10, bitDepth = 8) =>
+  `vp09.${twoDigits(profile)}.${twoDigits(level)}.${twoDigits(bitDepth)}`;
+
+/** "vp09.PP.LL.DD" from a VPCodecConfigurationRecord (vpcC payload after version/flags) */
+export const vp9CodecStringFromConfig = (vpcC: Uint8Array) =>
+  // Profile, level and the bit depth nibble share the same layout in vpcC versions 0 and 1.
+  // Some muxers write level 0 (undefined), which VideoDecoder rejects.
+  vp9CodecString(vpcC[0], vpcC[1] || 10, vpcC[2] >> 4 || 8);
+
+/**
+ * Read the profile and bit depth from the uncompressed header of a VP9 keyframe,
+ * for containers that don't carry a vpcC record.
+ */
+export const parseVp9KeyframeHeader = (frame: Uint8Array) => {
+  let bitPosition = 0;
+  const readBit = () => {
+    const bit = (frame[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1;
+    bitPosition++;
+    return bit;
+  };
+  const readBits = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = (value << 1) | readBit();
+    return value;
+  };
+
+  readBits(2); // frame_marker
+  const profileLow = readBit();
+  const profile = (readBit() << 1) | profileLow;
+  if (profile === 3) readBit(); // reserved_zero
+  // show_existing_frame, frame_type, show_frame, error_resilient_mode, then the 24-bit sync code
+  readBits(4 + 24);
+  const bitDepth = profile >= 2 ? (readBit() ? 12 : 10) : 8;
+  return { profile, bitDepth };
+};
+
+const AVC_PROFILES: Record<number, string> = {
+  66: "Baseline",
+  77: "Main",
+  88: "Extended",
+  100: "High",
+  110: "High 10",
+  122: "High 4:2:2",
+  244: "High 4:4:4",
+};
+const HEVC_PROFILES: Record<number, string> = { 1: "Main", 2: "Main 10", 3: "Main Still Picture", 4: "Range Extensions" };
+const AV1_PROFILES: Record<number, string> = { 0: "Main", 1: "High", 2: "Professional" };
+const AAC_OBJECT_TYPES: Record<number, string> = { 2: "LC", 5: "HE-AAC", 29: "HE-AAC v2", 23: "LD", 39: "ELD" };
+
+/** Human-readable profile and level encoded in a codec string, when the codec defines them */
+export const describeCodecProfile = (codec: string): { profile?: string; level?: string } => {
+  const [family, ...parts] = codec.split(".");
+  switch (family) {
+    case "avc1":
+    case "avc3": {
+      if (!parts[0] || parts[0].length < 6) return {};
+      const profileIdc = parseInt(parts[0].slice(0, 2), 16);
+      const levelIdc = parseInt(parts[0].slice(4, 6), 16);
+      return { profile: AVC_PROFILES[profileIdc] ?? `${profileIdc}`, level: `${levelIdc / 10}` };
+    }
+    case "hvc1":
+    case "hev1": {
+      // hvc1.<space><profile>.<compat>.<tier><level*30>...
+      const profileIdc = parseInt((parts[0] ?? "").replace(/^[ABC]/, ""), 10);
+      const tierLevel = parts[2] ?? "";
+      const levelIdc = parseInt(tierLevel.slice(1), 10);
+      return {
+        profile: HEVC_PROFILES[profileIdc] ?? (Number.isNaN(profileIdc) ? undefined : `${profileIdc}`),
+        level: Number.isNaN(levelIdc) ? undefined : `${levelIdc / 30}${tierLevel[0] === "H" ? " High tier" : ""}`,
+      };
+    }
+    case "vp09":
+      return parts.length >= 2 ? { profile: `${parseInt(parts[0], 10)}`, level: `${parseInt(parts[1], 10) / 10}` } : {};
+    case "av01": {
+      if (parts.length < 2) return {};
+      const levelIdx = parseInt(parts[1], 10);
+      return {
+        profile: AV1_PROFILES[parseInt(parts[0], 10)] ?? parts[0],
+        // seq_level_idx maps to X.Y as 2 + idx / 4 . idx % 4
+        level: `${2 + (levelIdx >> 2)}.${levelIdx & 3}${parts[1].endsWith("H") ? " High tier" : ""}`,
+      };
+    }
+    case "mp4a": {
+      const objectType = parseInt(parts[1] ?? "", 10);
+      return parts[0] === "40" && !Number.isNaN(objectType) ? { profile: AAC_OBJECT_TYPES[objectType] ?? `${objectType}` } : {};
+    }
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,119 @@
+import type { DisplayTransform } from "@/lib/display-transform";
+
+// Crop regions are stored as fractions of the upright, square-pixel frame, so the same region
+// applies whatever the output resolution and however the decoder sizes its frames.
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropAspectPreset {
+  label: string;
+  /** Width over height */
+  ratio: number;
+}
+
+export const CROP_ASPECT_PRESETS: CropAspectPreset[] = [
+  { label: "1:1", ratio: 1 },
+  { label: "16:9", ratio: 16 / 9 },
+  { label: "9:16", ratio: 9 / 16 },
+  { label: "4:3", ratio: 4 / 3 },
+];
+
+// Smallest crop side, as a fraction of the frame
+const MIN_CROP_SIZE = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keep the rectangle inside the frame, shrinking it only when it is larger than the frame */
+export const clampCrop = (crop: CropRect): CropRect => {
+  const width = clamp(crop.width, MIN_CROP_SIZE, 1);
+  const height = clamp(crop.height, MIN_CROP_SIZE, 1);
+  return { x: clamp(crop.x, 0, 1 - width), y: clamp(crop.y, 0, 1 - height), width, height };
+};
+
+/** Reshape a crop to `ratio` (in pixels) around its center, as large as fits in its current width */
+export const applyCropAspect = (crop: CropRect | null, ratio: number, frameWidth: number, frameHeight: number): CropRect => {
+  const current = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  // Fractions per pixel differ on each axis unless the frame is square
+  let width = current.width;
+  let height = (width * frameWidth) / ratio / frameHeight;
+  if (height > 1) {
+    width /= height;
+    height = 1;
+  }
+  const centerX = current.x + current.width / 2;
+  const centerY = current.y + current.height / 2;
+  return clampCrop({ x: centerX - width / 2, y: centerY - height / 2, width, height });
+};
+
+/** Rectangle spanned by a drag between two points (fractions); with a ratio the height follows the width */
+export const cropFromDrag = (
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  frameWidth: number,
+  frameHeight: number,
+  ratio?: number
+): CropRect => {
+  const endX = clamp(end.x, 0, 1);
+  let width = Math.abs(endX - start.x);
+  let height = Math.abs(clamp(end.y, 0, 1) - start.y);
+  if (ratio) {
+    height = (width * frameWidth) / ratio / frameHeight;
+    // Dragging toward an edge stops at it instead of leaving the frame
+    const room = end.y >= start.y ? 1 - start.y : start.y;
+    if (height > room) {
+      width *= room / height;
+      height = room;
+    }
+  }
+  return clampCrop({
+    x: endX >= start.x ? start.x : start.x - width,
+    y: end.y >= start.y ? start.y : start.y - height,
+    width,
+    height,
+  });
+};
+
+/** Crop in whole pixels of a `width` x `height` frame */
+export const toPixelCrop = (crop: CropRect, width: number, height: number): CropRect => ({
+  x: Math.round(crop.x * width),
+  y: Math.round(crop.y * height),
+  width: Math.round(crop.width * width),
+  height: Math.round(crop.height * height),
+});
+
+export const fromPixelCrop = (pixels: CropRect, width: number, height: number): CropRect =>
+  clampCrop({ x: pixels.x / width, y: pixels.y / height, width: pixels.width / width, height: pixels.height / height });
+
+/** Size of the cropped area of an upright `width` x `height` frame, before any resolution scaling */
+export const getCroppedSize = (width: number, height: number, crop: CropRect | null) =>
+  crop ? { width: crop.width * width, height: crop.height * height } : { width, height };
+
+/**
+ * The crop as a drawImage source rect in the source's own orientation: the region is chosen on the
+ * upright frame, but the decoded image is still sideways or upside down until drawn.
+ */
+export const getSourceCropRect = (
+  crop: CropRect,
+  rotation: DisplayTransform["rotation"],
+  sourceWidth: number,
+  sourceHeight: number
+): CropRect => {
+  const { x, y, width, height } = crop;
+  const rect = {
+    0: { x, y, width, height },
+    90: { x: y, y: 1 - x - width, width: height, height: width },
+    180: { x: 1 - x - width, y: 1 - y - height, width, height },
+    270: { x: 1 - y - height, y: x, width: height, height: width },
+  }[rotation];
+  return {
+    x: rect.x * sourceWidth,
+    y: rect.y * sourceHeight,
+    width: rect.width * sourceWidth,
+    height: rect.height * sourceHeight,
+  };
+};
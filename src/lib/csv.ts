@@ -0,0 +1,7 @@
+/** A CSV field, quoted when it holds a delimiter, quote or line break; missing values are empty */
+export const toCsvField = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]) => values.map(toCsvField).join(",");
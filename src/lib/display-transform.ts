@@ -0,0 +1,73 @@
+// How a player maps coded frames to the screen: containers can ask for a rotation (the tkhd matrix
+// of phone recordings) and for non-square pixels (pasp, Matroska DisplayWidth/DisplayHeight).
+
+export interface DisplayTransform {
+  /** Clockwise rotation in degrees */
+  rotation: 0 | 90 | 180 | 270;
+  /** Width of a pixel relative to its height */
+  pixelAspectRatio: number;
+}
+
+/** Colour description as coded in the bitstream/container (ISO/IEC 23091-2 code points) */
+export interface VideoColorInfo {
+  primaries: number;
+  transfer: number;
+  matrix: number;
+  fullRange: boolean;
+}
+
+export const IDENTITY_DISPLAY_TRANSFORM: DisplayTransform = { rotation: 0, pixelAspectRatio: 1 };
+
+/** Rotation of a 3x3 tkhd/mvhd matrix ({a, b, u, c, d, v, x, y, w}), snapped to quarter turns */
+export const rotationFromMatrix = (matrix: ArrayLike<number>): DisplayTransform["rotation"] => {
+  const degrees = (Math.atan2(matrix[1], matrix[0]) * 180) / Math.PI;
+  return ((((Math.round(degrees / 90) * 90) % 360) + 360) % 360) as DisplayTransform["rotation"];
+};
+
+/** Size of a coded frame once its pixels are made square and it is rotated upright */
+export const getDisplaySize = (codedWidth: number, codedHeight: number, transform: DisplayTransform) => {
+  const width = Math.round(codedWidth * transform.pixelAspectRatio);
+  return transform.rotation % 180 === 0
+    ? { width, height: codedHeight }
+    : { width: codedHeight, height: width };
+};
+
+/** Source rect for drawImage, in the source image's own pixels */
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Draw a frame into a `width` x `height` area the way a player shows it. With `sourceRect`, only
+ * that part of the source is drawn (a crop, in the source's orientation).
+ */
+export const drawWithDisplayTransform = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  transform: DisplayTransform,
+  sourceRect?: SourceRect
+) => {
+  const draw = (x: number, y: number, drawWidth: number, drawHeight: number) =>
+    sourceRect
+      ? ctx.drawImage(source, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, x, y, drawWidth, drawHeight)
+      : ctx.drawImage(source, x, y, drawWidth, drawHeight);
+  if (transform.rotation === 0) {
+    // Aspect correction alone is just a stretch to the output size
+    draw(0, 0, width, height);
+    return;
+  }
+  // Before the quarter turn the frame spans the output with its sides swapped
+  const quarterTurn = transform.rotation % 180 !== 0;
+  const drawWidth = quarterTurn ? height : width;
+  const drawHeight = quarterTurn ? width : height;
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  draw(-drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+};
@@ -0,0 +1,105 @@
+import { formatTimecode } from "@/lib/timecode";
+import type { ExtractedFrame, ExtractionMode, ExtractionSettings } from "@/lib/frame-extraction";
+
+// Output file names for extracted frames, built from a template like "{video}_{index:05}_{timecode}".
+// The image extension is always appended, so templates only describe the base name.
+
+export const FILE_NAME_TOKENS = ["video", "index", "pts_ms", "timecode", "scene", "w", "h"] as const;
+
+export type FileNameToken = (typeof FILE_NAME_TOKENS)[number];
+
+export type FileNameTemplateIssue =
+  | { kind: "illegal-character"; character: string }
+  | { kind: "unknown-token"; token: string }
+  /** Nothing in the template differs between frames, so files would overwrite each other */
+  | { kind: "collision" };
+
+export interface FileNameContext {
+  /** Source video file name */
+  video: string;
+  /** Output index, 0-based */
+  index: number;
+  frame: ExtractedFrame;
+  settings: ExtractionSettings;
+}
+
+// Characters Windows, macOS or Linux refuse in file names, besides control characters
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*]/;
+const isIllegalCharacter = (char: string) => ILLEGAL_CHARACTERS.test(char) || char.charCodeAt(0) < 0x20;
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+// Modes whose default names carry the source position
+const TIMESTAMPED_PREFIXES: Partial<Record<ExtractionMode, string>> = {
+  keyframes: "keyframe",
+  scenes: "scene",
+  timestamps: "time",
+  subtitles: "cue",
+};
+
+/** A file name without its extension, with characters that aren't allowed in file names replaced */
+export const safeFileNamePart = (name: string) =>
+  [...name.replace(/\.[^/.]+$/, "")]
+    .map((char) => (isIllegalCharacter(char) ? "_" : char))
+    .join("")
+    .trim() || "video";
+
+/** The naming used when no template is set: frame_00001, or prefix_00001_HH-MM-SS.mmm in timestamped modes */
+export const getDefaultFileNameTemplate = (mode: ExtractionMode) => {
+  const prefix = TIMESTAMPED_PREFIXES[mode];
+  return prefix ? `${prefix}_{index:05}_{timecode}` : "frame_{index:05}";
+};
+
+const getTokens = (template: string) => [...template.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+
+/** Whether the template gives every frame of an extraction in `mode` its own name */
+const isUniquePerFrame = (tokens: string[], mode: ExtractionMode) => {
+  if (tokens.includes("index")) return true;
+  if (mode === "scenes" && tokens.includes("scene")) return true;
+  // Several requested times or cues can land on the same frame, and cues can share a midpoint
+  if (tokens.includes("pts_ms") && mode !== "timestamps" && mode !== "subtitles") return true;
+  return tokens.includes("timecode") && mode !== "subtitles";
+};
+
+/** Check a template before extracting; an empty template stands for the mode's default */
+export const validateFileNameTemplate = (template: string, mode: ExtractionMode): FileNameTemplateIssue | null => {
+  template = template.trim() || getDefaultFileNameTemplate(mode);
+  const unknown = getTokens(template).find((token) => !(FILE_NAME_TOKENS as readonly string[]).includes(token));
+  if (unknown) return { kind: "unknown-token", token: unknown };
+  const illegal = [...template.replace(TOKEN_PATTERN, "")].find(isIllegalCharacter);
+  if (illegal) return { kind: "illegal-character", character: illegal };
+  if (!isUniquePerFrame(getTokens(template), mode)) return { kind: "collision" };
+  return null;
+};
+
+const getTokenValue = (token: FileNameToken, { video, index, frame, settings }: FileNameContext): string | number => {
+  switch (token) {
+    case "video":
+      return safeFileNamePart(video);
+    case "index":
+      return index + 1;
+    case "pts_ms":
+      return Math.round(frame.timestamp * 1000);
+    case "timecode":
+      // Requested times are kept as asked for; ":" isn't allowed in file names on Windows
+      return formatTimecode(frame.requestedTime ?? frame.timestamp).replace(/:/g, "-");
+    case "scene":
+      return settings.mode === "scenes" ? index + 1 : "";
+    case "w":
+      return frame.width;
+    case "h":
+      return frame.height;
+  }
+};
+
+/** File name for a frame; an empty template falls back to the mode's default */
+export const renderFileName = (template: string, context: FileNameContext) => {
+  const baseName = (template.trim() || getDefaultFileNameTemplate(context.settings.mode)).replace(
+    TOKEN_PATTERN,
+    (match, token: string, width?: string) => {
+      if (!(FILE_NAME_TOKENS as readonly string[]).includes(token)) return match;
+      const value = getTokenValue(token as FileNameToken, context);
+      return width && typeof value === "number" ? String(value).padStart(Number(width), "0") : String(value);
+    }
+  );
+  return `${baseName}.${context.settings.format}`;
+};
@@ -0,0 +1,322 @@
+import { decodeVideo, getFrameTimesInRange } from "@/lib/video-decoder";
+import { createLumaSampler, createSceneDetector } from "@/lib/scene-detection";
+import { getCueMidpoint, type SubtitleCue } from "@/lib/subtitles";
+import type { MediaSample } from "@/lib/sample-table";
+import { getCroppedSize, getSourceCropRect, type CropRect } from "@/lib/crop";
+import { drawWithDisplayTransform, getDisplaySize, IDENTITY_DISPLAY_TRANSFORM } from "@/lib/display-transform";
+
+export interface VideoInfo {
+  width: number;
+  height: number;
+  duration: number;
+  frameCount: number;
+  frameRate: number;
+  /** Presentation times (seconds) of the sync samples, when the container exposes them */
+  keyframeTimes?: number[];
+}
+
+export type ExtractionMode = "fps" | "everyNth" | "count" | "all" | "timestamps" | "subtitles" | "keyframes" | "scenes";
+
+export interface ExtractionSettings {
+  mode: ExtractionMode;
+  fps: number;
+  /** Every-Nth mode: keep one decoded frame out of this many */
+  frameStep: number;
+  /** Count mode: frames to spread evenly across the range */
+  totalFrames: number;
+  /** Timestamp mode: source times in seconds, sorted */
+  timestamps: number[];
+  /** Subtitle mode: one frame is taken at the midpoint of each cue */
+  subtitleCues: SubtitleCue[];
+  resolution: number;
+  quality: number;
+  format: "png" | "jpeg" | "webp";
+  /** In point in seconds */
+  startTime: number;
+  /** Out point in seconds */
+  endTime: number;
+  /** Scene mode: minimum frame difference (0-1) that starts a new shot */
+  sceneThreshold: number;
+  /** Scene mode: minimum seconds between shots */
+  sceneMinGap: number;
+  /** Output file name template (see file-name-template); empty uses the mode's default */
+  fileNameTemplate: string;
+  /** Write the source name, time and frame index into each image's metadata */
+  embedMetadata: boolean;
+  /** Region of the upright frame to keep; `resolution` scales the cropped area */
+  crop: CropRect | null;
+}
+
+export interface ExtractedFrame {
+  blob: Blob;
+  /** Presentation time in the source video, in seconds */
+  timestamp: number;
+  /** Output size in pixels */
+  width: number;
+  height: number;
+  /** Index of the frame in the source, in presentation order, when the sample table is known */
+  sourceIndex?: number;
+  /** Whether the source frame is a sync sample, when the sample table is known */
+  keyframe?: boolean;
+  /** Scene mode: difference to the previous frame */
+  sceneScore?: number;
+  /** Timestamp and subtitle modes: the time that was asked for, which can fall between frames */
+  requestedTime?: number;
+  /** Subtitle mode: the cue the frame was taken for */
+  cue?: SubtitleCue;
+}
+
+/** A source time asked for explicitly, by timestamp list or subtitle cue */
+export interface RequestedFrame {
+  time: number;
+  cue?: SubtitleCue;
+}
+
+export type ProgressCallback = (progress: number, currentFrame: number, totalFrames?: number) => void;
+
+// Below this share of the source frame rate, fps extraction decodes only the GOPs it needs
+const SPARSE_DECODE_RATIO = 0.25;
+// Images being encoded at once; decoding pauses beyond this
+const MAX_PENDING_IMAGES = 8;
+
+/**
+ * Frame-index modes: indices (in presentation order, from the start of the range) of the frames to keep
+ * out of `frameCount`, or null for modes that don't select by index
+ */
+export const selectFrameIndices = (frameCount: number, settings: ExtractionSettings): number[] | null => {
+  switch (settings.mode) {
+    case "everyNth": {
+      const step = Math.max(1, Math.round(settings.frameStep));
+      return Array.from({ length: Math.ceil(frameCount / step) }, (_, i) => i * step);
+    }
+    case "count": {
+      // The middle frame of each of N equal slices of the range
+      const count = Math.min(frameCount, Math.max(1, Math.round(settings.totalFrames)));
+      return Array.from({ length: count }, (_, i) => Math.floor(((i + 0.5) * frameCount) / count));
+    }
+    case "all":
+      return Array.from({ length: frameCount }, (_, i) => i);
+    default:
+      return null;
+  }
+};
+
+/** Timestamp and subtitle modes: the requested times inside the range, in order; null for other modes */
+export const getRequestedFrames = (settings: ExtractionSettings): RequestedFrame[] | null => {
+  const requested = settings.mode === "timestamps"
+    ? settings.timestamps.map((time): RequestedFrame => ({ time }))
+    : settings.mode === "subtitles"
+    ? settings.subtitleCues.map((cue): RequestedFrame => ({ time: getCueMidpoint(cue), cue }))
+    : null;
+  return requested
+    ?.filter(({ time }) => time >= settings.startTime && time <= settings.endTime)
+    .sort((a, b) => a.time - b.time) ?? null;
+};
+
+/** Index of the frame on screen at `time`: the last one presented at or before it */
+export const findDisplayedFrame = (frameTimes: number[], time: number) => {
+  let low = 0;
+  let high = frameTimes.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    // Allow for rounding in times converted from track ticks
+    if (frameTimes[middle] <= time + 1e-6) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+export interface SourceFrame {
+  /** Position in presentation order */
+  index: number;
+  /** Seconds */
+  time: number;
+  keyframe: boolean;
+}
+
+/** Look up the source frame on screen at a time, from a track's sample table */
+export const createSourceFrameLookup = (samples: MediaSample[], timescale: number) => {
+  const frames = samples
+    .map((sample) => ({ time: sample.cts / timescale, keyframe: sample.is_sync }))
+    .sort((a, b) => a.time - b.time)
+    .map((frame, index): SourceFrame => ({ ...frame, index }));
+  const times = frames.map((frame) => frame.time);
+  return (time: number): SourceFrame | undefined =>
+    frames.length > 0 ? frames[findDisplayedFrame(times, time)] : undefined;
+};
+
+/** Output size for an upright `width` x `height` frame: cropped first, then scaled */
+export const getOutputSize = (width: number, height: number, settings: ExtractionSettings) => {
+  const cropped = getCroppedSize(width, height, settings.crop);
+  return {
+    width: Math.max(1, Math.round(cropped.width * (settings.resolution / 100))),
+    height: Math.max(1, Math.round(cropped.height * (settings.resolution / 100))),
+  };
+};
+
+/** Frames inside the range at the container's nominal frame rate */
+export const estimateFramesInRange = (videoInfo: VideoInfo, settings: ExtractionSettings) =>
+  Math.round((settings.endTime - settings.startTime) * videoInfo.frameRate);
+
+/** Number of frames an extraction will produce, or null when it depends on the content */
+export const countTargetFrames = (videoInfo: VideoInfo, settings: ExtractionSettings) => {
+  if (settings.mode === "scenes") return null;
+  const requested = getRequestedFrames(settings);
+  if (requested) return requested.length;
+  if (settings.mode === "keyframes") {
+    return (videoInfo.keyframeTimes ?? []).filter(
+      (time) => time >= settings.startTime && time <= settings.endTime
+    ).length;
+  }
+  const indices = selectFrameIndices(estimateFramesInRange(videoInfo, settings), settings);
+  if (indices) return indices.length;
+  return Math.floor((settings.endTime - settings.startTime) * settings.fps);
+};
+
+/**
+ * Decode an MP4 or WebM with WebCodecs and encode the selected frames on an OffscreenCanvas.
+ * Doesn't touch the DOM, so it can run inside a worker.
+ */
+export const extractFramesWithWebCodecs = async (
+  file: File,
+  videoInfo: VideoInfo,
+  settings: ExtractionSettings,
+  onFrame: (frame: ExtractedFrame, frameIndex: number) => void,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal
+) => {
+  let { width: outputWidth, height: outputHeight } = getOutputSize(videoInfo.width, videoInfo.height, settings);
+  const canvas = new OffscreenCanvas(outputWidth, outputHeight);
+  const ctx = canvas.getContext("2d")!;
+  let display = IDENTITY_DISPLAY_TRANSFORM;
+  let findSourceFrame: ReturnType<typeof createSourceFrameLookup> | null = null;
+
+  const frameIntervalMicroseconds = (1000000 / settings.fps);
+  let lastExtractedTimestamp = -frameIntervalMicroseconds;
+  let targetFrameCount = countTargetFrames(videoInfo, settings);
+  let selectedFrameCount = 0;
+  let processedFrameCount = 0;
+
+  const encodeOptions: ImageEncodeOptions = {
+    type: `image/${settings.format}`,
+    quality: settings.format === "png" ? undefined : settings.quality,
+  };
+
+  const pendingImages = new Set<Promise<void>>();
+  // Image encoding errors are surfaced once decoding is done
+  let failure: unknown = null;
+  const keyframesOnly = settings.mode === "keyframes";
+  // Every-Nth and count modes pick exact frames from the sample table; native rate keeps them all
+  const indexMode = settings.mode === "everyNth" || settings.mode === "count";
+  const allFrames = settings.mode === "all";
+  const requestedFrames = getRequestedFrames(settings);
+  // Requested times landing on each selected frame, keyed by frame timestamp in microseconds
+  const requestedByFrame = new Map<number, RequestedFrame[]>();
+  const sparse = settings.mode === "fps" && settings.fps <= videoInfo.frameRate * SPARSE_DECODE_RATIO;
+  const range = { start: settings.startTime, end: settings.endTime };
+  const rangeDuration = settings.endTime - settings.startTime;
+  // Scene mode looks at every decoded frame, not just the ones on the FPS grid
+  const lumaSampler = settings.mode === "scenes" ? createLumaSampler() : null;
+  const sceneDetector = settings.mode === "scenes"
+    ? createSceneDetector({ threshold: settings.sceneThreshold, minGap: settings.sceneMinGap })
+    : null;
+
+  await decodeVideo(file, {
+    signal,
+    onConfig: (config, track) => {
+      // Size the output like the player shows the video: upright and with square pixels
+      display = track.display;
+      const size = getDisplaySize(config.codedWidth ?? videoInfo.width, config.codedHeight ?? videoInfo.height, display);
+      ({ width: outputWidth, height: outputHeight } = getOutputSize(size.width, size.height, settings));
+      canvas.width = outputWidth;
+      canvas.height = outputHeight;
+      findSourceFrame = createSourceFrameLookup(track.samples, track.timescale);
+      if (allFrames) targetFrameCount = getFrameTimesInRange(track.samples, track.timescale, range).length;
+    },
+    range,
+    keyframesOnly,
+    targetTimes: sparse
+      ? Array.from({ length: targetFrameCount ?? 0 }, (_, i) => settings.startTime + i / settings.fps)
+      : undefined,
+    selectFrames: indexMode
+      ? (frameTimes) => {
+          const indices = selectFrameIndices(frameTimes.length, settings)!;
+          targetFrameCount = indices.length;
+          return indices;
+        }
+      : requestedFrames
+      ? (frameTimes) =>
+          (frameTimes.length === 0 ? [] : requestedFrames).map((requested) => {
+            const index = findDisplayedFrame(frameTimes, requested.time);
+            // Same rounding as the decoder's chunk timestamps
+            const key = Math.floor(frameTimes[index] * 1000000);
+            requestedByFrame.set(key, [...(requestedByFrame.get(key) ?? []), requested]);
+            return index;
+          })
+      : undefined,
+    waitForCapacity: () =>
+      new Promise<void>((resolve) => {
+        const check = () => (pendingImages.size < MAX_PENDING_IMAGES ? resolve() : setTimeout(check, 5));
+        check();
+      }),
+    onFrame: (frame: VideoFrame) => {
+      const timestamp = frame.timestamp;
+      const cut = sceneDetector ? sceneDetector.push(lumaSampler!.sample(frame), timestamp / 1000000) : null;
+      const shouldKeep = sceneDetector
+        ? cut !== null
+        // Check if we should keep this frame based on target FPS; sparse and index decoding only deliver target frames
+        : keyframesOnly || sparse || indexMode || allFrames || requestedFrames !== null ||
+          timestamp - lastExtractedTimestamp >= frameIntervalMicroseconds * 0.9;
+
+      if (shouldKeep) {
+        lastExtractedTimestamp = timestamp;
+        // Several requested times can land on the same frame; each gets its own image
+        const requested = requestedFrames ? requestedByFrame.get(timestamp) ?? [] : [undefined];
+        const frameIndices = requested.map(() => selectedFrameCount++);
+
+        const sourceRect = settings.crop
+          ? getSourceCropRect(settings.crop, display.rotation, frame.displayWidth, frame.displayHeight)
+          : undefined;
+        drawWithDisplayTransform(ctx, frame, outputWidth, outputHeight, display, sourceRect);
+        const size = { width: outputWidth, height: outputHeight };
+        const source = findSourceFrame?.(timestamp / 1000000);
+
+        const pending = canvas.convertToBlob(encodeOptions).then((blob) => {
+          requested.forEach((request, i) => {
+            processedFrameCount++;
+            onFrame(
+              {
+                blob,
+                timestamp: timestamp / 1000000,
+                ...size,
+                sourceIndex: source?.index,
+                keyframe: source?.keyframe,
+                sceneScore: cut?.score,
+                requestedTime: request?.time,
+                cue: request?.cue,
+              },
+              frameIndices[i]
+            );
+          });
+
+          if (targetFrameCount === null) {
+            // Unknown total: report how far into the range we are
+            const position = timestamp / 1000000 - settings.startTime;
+            onProgress((position / rangeDuration) * 100, processedFrameCount);
+          } else {
+            onProgress((processedFrameCount / targetFrameCount) * 100, processedFrameCount, targetFrameCount);
+          }
+        }).catch((e) => {
+          failure ??= e;
+        });
+        pendingImages.add(pending);
+        pending.then(() => pendingImages.delete(pending));
+      }
+
+      frame.close();
+    },
+  });
+
+  await Promise.all(pendingImages);
+  if (failure) throw failure;
+};
@@ -0,0 +1,90 @@
+import type { ExtractedFrame, ExtractionSettings, ProgressCallback, VideoInfo } from "@/lib/frame-extraction";
+import type { FrameExtractorRequest, FrameExtractorResponse } from "@/workers/frame-extractor.worker";
+
+export type FrameReadyCallback = (frame: ExtractedFrame, frameIndex: number) => Promise<void>;
+
+/** The parts of a Worker the client talks to, so tests can drive it without a real worker */
+export type FrameExtractorWorker = Pick<Worker, "postMessage" | "terminate"> & {
+  onmessage: ((event: MessageEvent<FrameExtractorResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+};
+
+export interface RunFrameExtractorOptions {
+  onProgress: ProgressCallback;
+  signal?: AbortSignal;
+  /** Save each frame as it arrives; without it the frames are collected and returned */
+  onFrameReady?: FrameReadyCallback;
+}
+
+/**
+ * Drive a frame extractor worker through one extraction. Frames are saved one at a time in the
+ * order the worker sends them; if a save fails the worker is stopped and the run rejects with that
+ * first error, since every later frame would be missing from the output.
+ * The worker is only created once the run starts, so an already aborted signal costs nothing.
+ */
+export const runFrameExtractorWorker = (
+  createWorker: () => FrameExtractorWorker,
+  file: File,
+  videoInfo: VideoInfo,
+  settings: ExtractionSettings,
+  { onProgress, signal, onFrameReady }: RunFrameExtractorOptions
+): Promise<ExtractedFrame[]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Extraction cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = createWorker();
+    const frames: ExtractedFrame[] = [];
+    let saving = Promise.resolve();
+    let settled = false;
+    const post = (message: FrameExtractorRequest) => worker.postMessage(message);
+
+    const abortHandler = () => post({ type: "cancel" });
+    signal?.addEventListener("abort", abortHandler, { once: true });
+
+    const settle = (complete: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener("abort", abortHandler);
+      worker.terminate();
+      complete();
+    };
+    const fail = (error: unknown) => settle(() => reject(error));
+    // Saves already queued finish first, so the caller never sees the run end while frames are still being written
+    const failAfterSaving = (error: unknown) => saving.then(() => fail(error));
+
+    worker.onmessage = (event) => {
+      if (settled) return;
+      const message = event.data;
+      switch (message.type) {
+        case "frame":
+          if (onFrameReady) {
+            saving = saving
+              .then(() => (settled ? undefined : onFrameReady(message.frame, message.frameIndex)))
+              .catch((e) => {
+                post({ type: "cancel" });
+                fail(e);
+              });
+          } else {
+            frames[message.frameIndex] = message.frame;
+          }
+          break;
+        case "progress":
+          onProgress(message.progress, message.currentFrame, message.totalFrames);
+          break;
+        case "done":
+          saving.then(() => settle(() => resolve(frames)));
+          break;
+        case "error":
+          failAfterSaving(message.name === "AbortError"
+            ? new DOMException(message.message, "AbortError")
+            : new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => failAfterSaving(new Error(event.message || "Frame extraction worker failed"));
+
+    post({ type: "start", file, videoInfo, settings });
+  });
@@ -0,0 +1,139 @@
+import type { MediaSample } from "@/lib/sample-table";
+
+// Frame-level statistics from a video track's sample table, for judging a file's GOP structure
+// and bitrate before extracting or converting it. Nothing is decoded: frame types are inferred
+// from sync flags and reordering, and sizes are the coded sample sizes.
+
+export type FrameType = "I" | "P" | "B";
+
+export interface FrameStat {
+  /** Index in decode order */
+  index: number;
+  /** Presentation time in seconds */
+  time: number;
+  size: number;
+  type: FrameType;
+}
+
+export interface GopStat {
+  /** Presentation time of the keyframe, in seconds */
+  time: number;
+  /** Frames up to the next keyframe */
+  length: number;
+  size: number;
+}
+
+export interface BitratePoint {
+  /** End of the averaging window, in seconds */
+  time: number;
+  kbps: number;
+}
+
+export interface GopAnalysis {
+  /** In presentation order */
+  frames: FrameStat[];
+  gops: GopStat[];
+  bitrate: BitratePoint[];
+  /** Frame types of the first GOP in presentation order, e.g. "IBBPBBP" */
+  pattern: string;
+  hasBFrames: boolean;
+  averageGopLength: number;
+  maxGopLength: number;
+  peakKbps: number;
+}
+
+const BITRATE_WINDOW_SECONDS = 1;
+const MAX_PATTERN_LENGTH = 32;
+
+/**
+ * Infer I/P/B types in decode order: sync samples are I, and a frame presented before one that
+ * was decoded earlier must be bidirectionally predicted.
+ */
+export const classifyFrames = (samples: MediaSample[], timescale: number): FrameStat[] => {
+  let latestCts = -Infinity;
+  return samples.map((sample, index) => {
+    const type: FrameType = sample.is_sync ? "I" : sample.cts < latestCts ? "B" : "P";
+    latestCts = Math.max(latestCts, sample.cts);
+    return { index, time: sample.cts / timescale, size: sample.size, type };
+  });
+};
+
+/** One entry per keyframe-started group, measured in decode order */
+export const getGopStats = (frames: FrameStat[]): GopStat[] => {
+  const gops: GopStat[] = [];
+  for (const frame of frames) {
+    const current = gops[gops.length - 1];
+    if (frame.type === "I" || !current) {
+      gops.push({ time: frame.time, length: 1, size: frame.size });
+    } else {
+      current.length++;
+      current.size += frame.size;
+    }
+  }
+  return gops;
+};
+
+/** Bitrate over a trailing window, at up to `maxPoints` evenly spaced times */
+export const getRollingBitrate = (
+  frames: FrameStat[],
+  maxPoints: number,
+  windowSeconds = BITRATE_WINDOW_SECONDS
+): BitratePoint[] => {
+  const ordered = [...frames].sort((a, b) => a.time - b.time);
+  if (ordered.length === 0) return [];
+  const start = ordered[0].time;
+  const end = ordered[ordered.length - 1].time;
+  const pointCount = Math.max(1, Math.min(maxPoints, ordered.length));
+  const step = (end - start) / pointCount;
+  // Short files get a window that fits inside them
+  const window = Math.min(windowSeconds, Math.max(end - start, step) || windowSeconds);
+
+  const points: BitratePoint[] = [];
+  let first = 0;
+  let last = 0;
+  let bytes = 0;
+  for (let i = 1; i <= pointCount; i++) {
+    const time = start + step * i;
+    while (last < ordered.length && ordered[last].time <= time) bytes += ordered[last++].size;
+    while (first < last && ordered[first].time <= time - window) bytes -= ordered[first++].size;
+    points.push({ time, kbps: Math.round((bytes * 8) / window / 1000) });
+  }
+  return points;
+};
+
+export const analyzeGop = (samples: MediaSample[], timescale: number, maxPoints = 500): GopAnalysis => {
+  const decodeOrder = classifyFrames(samples, timescale);
+  const gops = getGopStats(decodeOrder);
+  const frames = [...decodeOrder].sort((a, b) => a.time - b.time);
+  const bitrate = getRollingBitrate(frames, maxPoints);
+
+  const firstGopEnd = frames.findIndex((frame, index) => index > 0 && frame.type === "I");
+  const firstGop = frames.slice(0, firstGopEnd > 0 ? firstGopEnd : frames.length);
+  const pattern = firstGop.slice(0, MAX_PATTERN_LENGTH).map((frame) => frame.type).join("");
+
+  return {
+    frames,
+    gops,
+    bitrate,
+    pattern: firstGop.length > MAX_PATTERN_LENGTH ? `${pattern}…` : pattern,
+    hasBFrames: decodeOrder.some((frame) => frame.type === "B"),
+    averageGopLength: gops.length > 0 ? Math.round((frames.length / gops.length) * 10) / 10 : 0,
+    maxGopLength: Math.max(0, ...gops.map((gop) => gop.length)),
+    peakKbps: Math.max(0, ...bitrate.map((point) => point.kbps)),
+  };
+};
+
+/**
+ * Reduce a series to at most `maxPoints` entries for charting, keeping the largest value
+ * in each bucket so keyframe spikes stay visible.
+ */
+export const downsampleByMax = <T>(items: T[], maxPoints: number, value: (item: T) => number): T[] => {
+  if (items.length <= maxPoints) return items;
+  const bucketSize = Math.ceil(items.length / maxPoints);
+  const result: T[] = [];
+  for (let i = 0; i < items.length; i += bucketSize) {
+    const bucket = items.slice(i, i + bucketSize);
+    result.push(bucket.reduce((best, item) => (value(item) > value(best) ? item : best)));
+  }
+  return result;
+};
@@ -0,0 +1,209 @@
+import { crc32 } from "@/lib/zip-writer";
+import { formatTimecode } from "@/lib/timecode";
+
+// Provenance written into each extracted image, so a frame copied away from its manifest still
+// says where it came from. PNG gets tEXt/iTXt chunks, JPEG gets EXIF and XMP APP1 segments and
+// WebP gets an XMP chunk. The image data itself is left untouched.
+
+export interface FrameProvenance {
+  /** Source video file name */
+  source: string;
+  /** Presentation time in the source, in seconds */
+  pts: number;
+  /** Source frame index in presentation order, when known */
+  sourceIndex?: number;
+  /** Position in the extraction, 0-based */
+  outputIndex: number;
+}
+
+const XMP_NAMESPACE = "urn:frame-extractor:provenance:1.0";
+const XMP_KEYWORD = "XML:com.adobe.xmp";
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+const encoder = new TextEncoder();
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[char]!);
+
+const describe = (provenance: FrameProvenance) => {
+  const frame = provenance.sourceIndex === undefined ? "" : `, frame ${provenance.sourceIndex}`;
+  return `${provenance.source} @ ${formatTimecode(provenance.pts)}${frame}`;
+};
+
+export const buildXmpPacket = (provenance: FrameProvenance) => {
+  const properties = [
+    `<fx:PresentationTime>${provenance.pts.toFixed(6)}</fx:PresentationTime>`,
+    `<fx:Timecode>${formatTimecode(provenance.pts)}</fx:Timecode>`,
+    provenance.sourceIndex === undefined ? "" : `<fx:FrameIndex>${provenance.sourceIndex}</fx:FrameIndex>`,
+    `<fx:OutputIndex>${provenance.outputIndex}</fx:OutputIndex>`,
+  ];
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:fx="${XMP_NAMESPACE}">`,
+    `<dc:source>${escapeXml(provenance.source)}</dc:source>`,
+    ...properties.filter(Boolean),
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="r"?>',
+  ].join("\n");
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const typeAndData = concat(latin1(type), data);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+const pngText = (keyword: string, text: string) => pngChunk("tEXt", concat(latin1(`${keyword}\0`), latin1(text)));
+
+// Keyword, no compression, empty language and translated keyword, then UTF-8 text
+const pngInternationalText = (keyword: string, text: string) =>
+  pngChunk("iTXt", concat(latin1(`${keyword}\0\0\0\0\0`), encoder.encode(text)));
+
+/** Insert text chunks right after IHDR */
+const addPngMetadata = (bytes: Uint8Array, provenance: FrameProvenance) => {
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  const chunks = [
+    pngInternationalText("Source", provenance.source),
+    pngText("PTS", provenance.pts.toFixed(6)),
+    pngText("Timecode", formatTimecode(provenance.pts)),
+    ...(provenance.sourceIndex === undefined ? [] : [pngText("FrameIndex", String(provenance.sourceIndex))]),
+    pngText("OutputIndex", String(provenance.outputIndex)),
+    pngInternationalText(XMP_KEYWORD, buildXmpPacket(provenance)),
+  ];
+  return concat(bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd));
+};
+
+/** Big-endian TIFF with an IFD0 holding DocumentName (the source) and ImageDescription */
+const buildExif = (provenance: FrameProvenance) => {
+  const entries = [
+    { tag: 0x010d, value: encoder.encode(`${provenance.source}\0`) },
+    { tag: 0x010e, value: encoder.encode(`${describe(provenance)}\0`) },
+  ];
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const dataSize = entries.reduce((total, entry) => total + (entry.value.length > 4 ? entry.value.length : 0), 0);
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+  tiff.set(latin1("MM\0*"));
+  view.setUint32(4, 8);
+  view.setUint16(8, entries.length);
+  let dataOffset = 8 + ifdSize;
+  entries.forEach((entry, index) => {
+    const offset = 10 + index * 12;
+    view.setUint16(offset, entry.tag);
+    view.setUint16(offset + 2, 2); // ASCII
+    view.setUint32(offset + 4, entry.value.length);
+    if (entry.value.length <= 4) {
+      tiff.set(entry.value, offset + 8);
+    } else {
+      view.setUint32(offset + 8, dataOffset);
+      tiff.set(entry.value, dataOffset);
+      dataOffset += entry.value.length;
+    }
+  });
+  return concat(latin1(EXIF_HEADER), tiff);
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, marker);
+  view.setUint16(2, payload.length + 2);
+  return concat(header, payload);
+};
+
+/** Insert EXIF and XMP APP1 segments after SOI and the JFIF APP0, if any */
+const addJpegMetadata = (bytes: Uint8Array, provenance: FrameProvenance) => {
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt += 2 + ((bytes[4] << 8) | bytes[5]);
+  const segments = [
+    jpegSegment(0xffe1, buildExif(provenance)),
+    jpegSegment(0xffe1, concat(latin1(XMP_HEADER), encoder.encode(buildXmpPacket(provenance)))),
+  ];
+  return concat(bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt));
+};
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  // Chunks are padded to an even size
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(latin1(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_XMP = 0x04;
+
+/** Canvas size and alpha of a simple-format WebP's bitstream, for the VP8X header it needs */
+const readWebpImageInfo = (type: string, data: Uint8Array) => {
+  if (type === "VP8L") {
+    const bits = (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0;
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  return { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff, alpha: false };
+};
+
+/** Append an XMP chunk, switching a simple WebP to the extended format so the chunk is allowed */
+const addWebpMetadata = (bytes: Uint8Array, provenance: FrameProvenance) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const firstType = String.fromCharCode(...bytes.subarray(12, 16));
+  let body = bytes.slice(12, 8 + view.getUint32(4, true));
+
+  if (firstType === "VP8X") {
+    body[8] |= VP8X_XMP;
+  } else {
+    const { width, height, alpha } = readWebpImageInfo(firstType, bytes.subarray(20));
+    const header = new Uint8Array(10);
+    header[0] = VP8X_XMP | (alpha ? VP8X_ALPHA : 0);
+    [width - 1, height - 1].forEach((size, index) => {
+      header[4 + index * 3] = size & 0xff;
+      header[5 + index * 3] = (size >> 8) & 0xff;
+      header[6 + index * 3] = (size >> 16) & 0xff;
+    });
+    body = concat(riffChunk("VP8X", header), body);
+  }
+
+  body = concat(body, riffChunk("XMP ", encoder.encode(buildXmpPacket(provenance))));
+  const header = new Uint8Array(12);
+  header.set(latin1("RIFF"));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(latin1("WEBP"), 8);
+  return concat(header, body);
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+/** Add provenance to a PNG, JPEG or WebP; other data is returned unchanged */
+export const embedFrameMetadata = async (blob: Blob, provenance: FrameProvenance): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let result: Uint8Array | null = null;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    result = addPngMetadata(bytes, provenance);
+  } else if (startsWith(bytes, [0xff, 0xd8])) {
+    result = addJpegMetadata(bytes, provenance);
+  } else if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    result = addWebpMetadata(bytes, provenance);
+  }
+  return result ? new Blob([result], { type: blob.type }) : blob;
+};
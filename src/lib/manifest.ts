@@ -0,0 +1,73 @@
+import { toCsvRow } from "@/lib/csv";
+import type { ExtractedFrame, ExtractionSettings } from "@/lib/frame-extraction";
+
+// Manifest written next to the extracted images, so downstream tools can join each file back to
+// its position in the source video and verify it wasn't altered.
+
+export type ExtractionMethod = "webcodecs" | "seek";
+
+export interface ManifestFrame {
+  file: string;
+  /** Presentation time in the source, in seconds */
+  pts: number;
+  /** Timestamp and subtitle modes: the time that was asked for */
+  requestedTime?: number;
+  /** Source frame index in presentation order; null when the container's sample table wasn't available */
+  sourceIndex: number | null;
+  keyframe: boolean | null;
+  width: number;
+  height: number;
+  bytes: number;
+  sha256: string;
+}
+
+export interface ExtractionManifest {
+  source: { name: string; size: number };
+  method: ExtractionMethod;
+  /** ISO 8601 */
+  createdAt: string;
+  settings: ExtractionSettings;
+  frames: ManifestFrame[];
+}
+
+export const MANIFEST_JSON_FILE_NAME = "manifest.json";
+export const MANIFEST_CSV_FILE_NAME = "manifest.csv";
+
+const CSV_COLUMNS: (keyof ManifestFrame)[] = [
+  "file",
+  "pts",
+  "requestedTime",
+  "sourceIndex",
+  "keyframe",
+  "width",
+  "height",
+  "bytes",
+  "sha256",
+];
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const hashBlob = async (blob: Blob) => toHex(await crypto.subtle.digest("SHA-256", await blob.arrayBuffer()));
+
+const roundTime = (seconds: number) => Number(seconds.toFixed(6));
+
+/** Describe a saved image; hashes its bytes */
+export const createManifestFrame = async (file: string, frame: ExtractedFrame): Promise<ManifestFrame> => ({
+  file,
+  pts: roundTime(frame.timestamp),
+  requestedTime: frame.requestedTime === undefined ? undefined : roundTime(frame.requestedTime),
+  sourceIndex: frame.sourceIndex ?? null,
+  keyframe: frame.keyframe ?? null,
+  width: frame.width,
+  height: frame.height,
+  bytes: frame.blob.size,
+  sha256: await hashBlob(frame.blob),
+});
+
+export const buildManifestJson = (manifest: ExtractionManifest) => JSON.stringify(manifest, null, 2) + "\n";
+
+/** One row per frame; the source and settings are only in the JSON manifest */
+export const buildManifestCsv = (manifest: ExtractionManifest) =>
+  [toCsvRow(CSV_COLUMNS), ...manifest.frames.map((frame) => toCsvRow(CSV_COLUMNS.map((column) => frame[column])))]
+    .join("\n") + "\n";
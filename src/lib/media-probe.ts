@@ -0,0 +1,282 @@
+// One probe for every page: parses the container (MP4 via mp4box, WebM/Matroska via webm-demux)
+// and describes all of its tracks from the sample tables, so fragmented files get real counts too.
+
+import type * as MP4Box from "mp4box";
+import { describeCodecProfile } from "@/lib/codec-strings";
+import { getDisplaySize, type VideoColorInfo } from "@/lib/display-transform";
+import {
+  getVideoColorInfo,
+  getVideoDecoderCodec,
+  getVideoDisplayTransform,
+  getMp4VideoTrack,
+  probeMp4,
+} from "@/lib/mp4-demux";
+import { getSampleTableStats, type MediaSample } from "@/lib/sample-table";
+import {
+  demuxWebm,
+  getWebmDecoderConfig,
+  getWebmVideoTrack,
+  isEbmlFile,
+  WEBM_TRACK_TYPES,
+  type WebmFile,
+  type WebmTrack,
+} from "@/lib/webm-demux";
+
+export type MediaTrackKind = "video" | "audio" | "subtitle" | "metadata";
+
+export interface VideoTrackDetails {
+  codedWidth: number;
+  codedHeight: number;
+  /** Upright size with square pixels, as a player shows it */
+  width: number;
+  height: number;
+  frameRate: number;
+  /** Presentation times (seconds) of the sync samples */
+  keyframeTimes: number[];
+  /** Clockwise degrees */
+  rotation: number;
+  pixelAspectRatio: number;
+  color?: VideoColorInfo;
+}
+
+export interface AudioTrackDetails {
+  sampleRate: number;
+  channels: number;
+  bitDepth?: number;
+}
+
+export interface MediaTrackInfo {
+  id: number;
+  kind: MediaTrackKind;
+  /** WebCodecs codec string when one is known, otherwise the container's codec ID */
+  codec: string;
+  profile?: string;
+  level?: string;
+  language?: string;
+  /** Bits per second, averaged over the track */
+  bitrate: number;
+  /** Ticks per second of the track's samples */
+  timescale: number;
+  /** Seconds */
+  duration: number;
+  sampleCount: number;
+  /** The track's sample table, in decode order */
+  samples: MediaSample[];
+  video?: VideoTrackDetails;
+  audio?: AudioTrackDetails;
+}
+
+export interface MediaInfo {
+  container: "mp4" | "webm" | "unknown";
+  fileSize: number;
+  /** Seconds */
+  duration: number;
+  /** MP4 with moof/mdat fragments */
+  fragmented: boolean;
+  tracks: MediaTrackInfo[];
+}
+
+/** A probe together with the container parse behind it, so callers can reuse the parse */
+export type ParsedMedia = { info: MediaInfo } & (
+  | { container: "mp4"; mp4boxFile: MP4Box.ISOFile; movie: MP4Box.Movie }
+  | { container: "webm"; webm: WebmFile }
+);
+
+// Matroska codec IDs of audio codecs WebCodecs knows under another name
+const WEBM_AUDIO_CODECS: Record<string, string> = {
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_FLAC: "flac",
+  A_AAC: "mp4a.40.2",
+  "A_MPEG/L3": "mp3",
+};
+
+const describeSamples = (samples: MediaSample[], timescale: number) => {
+  const stats = getSampleTableStats(samples, timescale);
+  const bytes = samples.reduce((total, sample) => total + sample.size, 0);
+  return { stats, bitrate: stats.duration > 0 ? Math.round((bytes * 8) / stats.duration) : 0 };
+};
+
+const getMp4TrackKind = (track: MP4Box.Track): MediaTrackKind => {
+  if (track.type === "video" || track.type === "audio") return track.type;
+  // mp4box only types "sbtl" tracks as subtitles; 3GPP timed text uses the "text" handler
+  return track.type === "subtitles" || track.codec === "tx3g" ? "subtitle" : "metadata";
+};
+
+const parseMp4Media = async (file: Blob, signal?: AbortSignal): Promise<ParsedMedia> => {
+  const { mp4boxFile, info } = await probeMp4(file, signal);
+
+  const tracks = info.tracks.map((track): MediaTrackInfo => {
+    const kind = getMp4TrackKind(track);
+    const samples = mp4boxFile.getTrackSamplesInfo(track.id);
+    const { stats, bitrate } = describeSamples(samples, track.timescale);
+    const codec = kind === "video" ? getVideoDecoderCodec(mp4boxFile, track).codec : track.codec;
+    const result: MediaTrackInfo = {
+      id: track.id,
+      kind,
+      codec,
+      ...describeCodecProfile(codec),
+      language: track.language && track.language !== "und" ? track.language : undefined,
+      bitrate: bitrate || track.bitrate,
+      timescale: track.timescale,
+      // Fragmented files have no duration in the moov, so prefer the sample table
+      duration: stats.duration || track.duration / track.timescale,
+      sampleCount: stats.frameCount,
+      samples,
+    };
+
+    if (kind === "video") {
+      const display = getVideoDisplayTransform(mp4boxFile, track);
+      const codedWidth = track.video?.width || track.track_width;
+      const codedHeight = track.video?.height || track.track_height;
+      result.video = {
+        codedWidth,
+        codedHeight,
+        ...getDisplaySize(codedWidth, codedHeight, display),
+        frameRate: stats.frameRate,
+        keyframeTimes: stats.keyframeTimes,
+        rotation: display.rotation,
+        pixelAspectRatio: display.pixelAspectRatio,
+        color: getVideoColorInfo(mp4boxFile, track),
+      };
+    } else if (kind === "audio") {
+      result.audio = {
+        sampleRate: track.audio?.sample_rate ?? 0,
+        channels: track.audio?.channel_count ?? 0,
+        bitDepth: track.audio?.sample_size,
+      };
+    }
+    return result;
+  });
+
+  return {
+    container: "mp4",
+    mp4boxFile,
+    movie: info,
+    info: {
+      container: "mp4",
+      fileSize: file.size,
+      duration: info.duration / info.timescale || Math.max(0, ...tracks.map((track) => track.duration)),
+      fragmented: info.isFragmented,
+      tracks,
+    },
+  };
+};
+
+const getWebmTrackKind = (track: WebmTrack): MediaTrackKind => {
+  if (track.type === WEBM_TRACK_TYPES.video) return "video";
+  if (track.type === WEBM_TRACK_TYPES.audio) return "audio";
+  return track.type === WEBM_TRACK_TYPES.subtitle ? "subtitle" : "metadata";
+};
+
+const parseWebmMedia = async (file: Blob, signal?: AbortSignal): Promise<ParsedMedia> => {
+  const webm = await demuxWebm(file, signal);
+  const { timescale, duration, tracks } = webm;
+
+  const describedTracks = await Promise.all(tracks.map(async (track): Promise<MediaTrackInfo> => {
+    const kind = getWebmTrackKind(track);
+    const { stats, bitrate } = describeSamples(track.samples, timescale);
+    let codec = WEBM_AUDIO_CODECS[track.codecId] ?? track.codecId;
+    if (kind === "video") {
+      codec = (await getWebmDecoderConfig(file, { ...track, timescale, duration }))?.codec ?? codec;
+    }
+    const result: MediaTrackInfo = {
+      id: track.number,
+      kind,
+      codec,
+      ...describeCodecProfile(codec),
+      language: track.language && track.language !== "und" ? track.language : undefined,
+      bitrate,
+      timescale,
+      duration: stats.duration,
+      sampleCount: stats.frameCount,
+      samples: track.samples,
+    };
+
+    if (kind === "video") {
+      const display = { rotation: 0, pixelAspectRatio: track.pixelAspectRatio } as const;
+      result.video = {
+        codedWidth: track.width,
+        codedHeight: track.height,
+        ...getDisplaySize(track.width, track.height, display),
+        frameRate: stats.frameRate,
+        keyframeTimes: stats.keyframeTimes,
+        rotation: display.rotation,
+        pixelAspectRatio: display.pixelAspectRatio,
+        color: track.color,
+      };
+    } else if (kind === "audio") {
+      result.audio = { sampleRate: track.sampleRate ?? 0, channels: track.channels ?? 0, bitDepth: track.bitDepth };
+    }
+    return result;
+  }));
+
+  return {
+    container: "webm",
+    webm,
+    info: {
+      container: "webm",
+      fileSize: file.size,
+      duration: duration ?? Math.max(0, ...describedTracks.map((track) => track.duration)),
+      fragmented: false,
+      tracks: describedTracks,
+    },
+  };
+};
+
+/** Parse an MP4 or WebM/Matroska file and describe every track; rejects for other containers */
+export const parseMedia = async (file: Blob, signal?: AbortSignal): Promise<ParsedMedia> =>
+  (await isEbmlFile(file)) ? parseWebmMedia(file, signal) : parseMp4Media(file, signal);
+
+/** Describe every track of an MP4 or WebM/Matroska file; rejects for other containers */
+export const probeMedia = async (file: Blob, signal?: AbortSignal): Promise<MediaInfo> =>
+  (await parseMedia(file, signal)).info;
+
+/** VideoDecoderConfig of the first video track, built from an existing parse; rejects when there's none */
+export const getParsedVideoDecoderConfig = async (file: Blob, parsed: ParsedMedia): Promise<VideoDecoderConfig> => {
+  if (parsed.container === "mp4") return getMp4VideoTrack(parsed.mp4boxFile, parsed.movie).config;
+  const track = getWebmVideoTrack(parsed.webm);
+  const config = await getWebmDecoderConfig(file, track);
+  if (!config) throw new Error(`Codec ${track.codecId} is not supported`);
+  return config;
+};
+
+/**
+ * Minimal MediaInfo for files the probe can't parse, from what a <video> element reports.
+ * Frame rate and sample count stay 0 since the element doesn't expose them.
+ */
+export const createFallbackMediaInfo = (
+  file: Blob,
+  { width, height, duration }: { width: number; height: number; duration: number }
+): MediaInfo => ({
+  container: "unknown",
+  fileSize: file.size,
+  duration,
+  fragmented: false,
+  tracks: [
+    {
+      id: 1,
+      kind: "video",
+      codec: "unknown",
+      bitrate: duration > 0 ? Math.round((file.size * 8) / duration) : 0,
+      timescale: 1,
+      duration,
+      sampleCount: 0,
+      samples: [],
+      video: {
+        codedWidth: width,
+        codedHeight: height,
+        width,
+        height,
+        frameRate: 0,
+        keyframeTimes: [],
+        rotation: 0,
+        pixelAspectRatio: 1,
+      },
+    },
+  ],
+});
+
+export const getVideoTrack = (info: MediaInfo) => info.tracks.find((track) => track.kind === "video");
+
+export const getAudioTrack = (info: MediaInfo) => info.tracks.find((track) => track.kind === "audio");
@@ -0,0 +1,245 @@
+import * as MP4Box from "mp4box";
+import { buildOpusHead } from "@/lib/muxer-utils";
+import { av1CodecStringFromConfig, vp9CodecStringFromConfig } from "@/lib/codec-strings";
+import { rotationFromMatrix, type DisplayTransform, type VideoColorInfo } from "@/lib/display-transform";
+import type { DemuxedVideoTrack } from "@/lib/sample-table";
+
+const READ_CHUNK_SIZE = 1024 * 1024; // 1MB chunks
+
+/**
+ * Feed a file to mp4box in chunks, flushing once the whole file has been appended.
+ * `beforeChunk` lets callers apply backpressure between reads.
+ */
+export const appendFileToMp4Box = async (
+  file: Blob,
+  mp4boxFile: MP4Box.ISOFile,
+  signal?: AbortSignal,
+  beforeChunk?: () => Promise<void>
+) => {
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    if (signal?.aborted) throw new DOMException("Operation cancelled", "AbortError");
+    await beforeChunk?.();
+    if (signal?.aborted) throw new DOMException("Operation cancelled", "AbortError");
+    const buffer = (await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer()) as MP4Box.MP4BoxBuffer;
+    buffer.fileStart = offset;
+    mp4boxFile.appendBuffer(buffer);
+  }
+  mp4boxFile.flush();
+};
+
+/**
+ * Read the file in ranged chunks until mp4box has parsed the moov box, without loading the whole file.
+ * mdat payloads are skipped using the next position mp4box asks for, so a moov at the end of the file
+ * costs one read at the start plus the tail. Fragmented files keep going through every moof so their
+ * samples end up in the sample tables.
+ * The returned ISOFile has the full sample tables, so callers can read sample data directly.
+ */
+export const probeMp4 = async (file: Blob, signal?: AbortSignal) => {
+  const mp4boxFile = MP4Box.createFile();
+  let info: MP4Box.Movie | null = null;
+  let error: string | null = null;
+
+  mp4boxFile.onReady = (movie: MP4Box.Movie) => {
+    info = movie;
+  };
+  mp4boxFile.onError = (_module: string, message: string) => {
+    error = message;
+  };
+
+  let offset = 0;
+  while (offset < file.size && !error) {
+    if (info && !(info as MP4Box.Movie).isFragmented) break;
+    if (signal?.aborted) throw new DOMException("Operation cancelled", "AbortError");
+    const buffer = (await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer()) as MP4Box.MP4BoxBuffer;
+    buffer.fileStart = offset;
+    const nextOffset = mp4boxFile.appendBuffer(buffer);
+    // Past an mdat header mp4box asks for the box after it, e.g. a moov at the tail
+    offset = Math.max(offset + buffer.byteLength, nextOffset ?? 0);
+  }
+  if (offset >= file.size) mp4boxFile.flush();
+
+  if (error) throw new Error(error);
+  if (!info) throw new Error("No moov box found");
+  return { mp4boxFile, info: info as MP4Box.Movie };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getSampleEntry = (mp4boxFile: MP4Box.ISOFile, trackId: number): any =>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (mp4boxFile.getTrackById(trackId) as any)?.mdia?.minf?.stbl?.stsd?.entries?.[0];
+
+const serializeMp4Box = (box: unknown): Uint8Array | undefined => {
+  if (!box) return undefined;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const b: any = box;
+  if (b instanceof Uint8Array) return b;
+  if (b?.data instanceof Uint8Array) return b.data;
+  if (b?.data instanceof ArrayBuffer) return new Uint8Array(b.data);
+  if (b?.buffer instanceof ArrayBuffer && typeof b.byteOffset === "number" && typeof b.byteLength === "number") {
+    return new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+  }
+  if (b?.buffer instanceof ArrayBuffer) return new Uint8Array(b.buffer);
+
+  // Try to serialize via MP4Box's internal DataStream if available.
+  // This usually writes a full MP4 box (size+type+payload), so we strip the 8-byte header.
+  if (typeof b?.write === "function") {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const DataStreamCtor = (MP4Box as any).DataStream;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const Endianness = (MP4Box as any).Endianness;
+    if (DataStreamCtor) {
+      try {
+        const stream = new DataStreamCtor(undefined, 0, Endianness?.BIG_ENDIAN ?? 1);
+        b.write(stream);
+        const total = stream?.buffer as ArrayBuffer | undefined;
+        const endPos = typeof stream?.position === "number" ? stream.position : undefined;
+        if (total && endPos && endPos > 8) {
+          return new Uint8Array(total.slice(8, endPos));
+        }
+        if (total && total.byteLength > 8) {
+          return new Uint8Array(total.slice(8));
+        }
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/** Extract the avcC/hvcC/av1C record WebCodecs expects as `description` for H.264/HEVC/AV1 tracks */
+export const getVideoDecoderDescription = (mp4boxFile: MP4Box.ISOFile, trackId: number): Uint8Array | undefined => {
+  try {
+    const entry = getSampleEntry(mp4boxFile, trackId);
+    if (entry) {
+      // For H.264 (AVC) - avcC box contains SPS/PPS
+      if (entry.avcC) {
+        return serializeMp4Box(entry.avcC);
+      }
+      // For HEVC - hvcC box
+      if (entry.hvcC) {
+        return serializeMp4Box(entry.hvcC);
+      }
+      // For AV1 - av1C box, including any configOBUs
+      if (entry.av1C) {
+        return serializeMp4Box(entry.av1C);
+      }
+    }
+  } catch (e) {
+    console.warn("Could not extract codec description:", e);
+  }
+  return undefined;
+};
+
+/**
+ * Build the codec string and description for VideoDecoder from the track's sample entry.
+ * mp4box's own codec strings for VP8/VP9 aren't valid WebCodecs strings, so those are rebuilt from vpcC.
+ */
+export const getVideoDecoderCodec = (mp4boxFile: MP4Box.ISOFile, track: MP4Box.Track) => {
+  const entry = getSampleEntry(mp4boxFile, track.id);
+  if (entry?.type === "vp08") return { codec: "vp8" };
+
+  const vpcC = serializeMp4Box(entry?.vpcC);
+  if (vpcC) return { codec: vp9CodecStringFromConfig(vpcC) };
+
+  const description = getVideoDecoderDescription(mp4boxFile, track.id);
+  if (entry?.av1C && description) return { codec: av1CodecStringFromConfig(description), description };
+
+  return { codec: track.codec, description };
+};
+
+/** Rotation from the tkhd matrix and pixel aspect ratio from the sample entry's pasp box */
+export const getVideoDisplayTransform = (mp4boxFile: MP4Box.ISOFile, track: MP4Box.Track): DisplayTransform => {
+  const pasp = getSampleEntry(mp4boxFile, track.id)?.pasp;
+  return {
+    rotation: track.matrix ? rotationFromMatrix(track.matrix) : 0,
+    pixelAspectRatio: pasp?.hSpacing > 0 && pasp?.vSpacing > 0 ? pasp.hSpacing / pasp.vSpacing : 1,
+  };
+};
+
+/** Colour description from the sample entry's nclx colr box, or from a version 1 vpcC */
+export const getVideoColorInfo = (mp4boxFile: MP4Box.ISOFile, track: MP4Box.Track): VideoColorInfo | undefined => {
+  const entry = getSampleEntry(mp4boxFile, track.id);
+  const colr = entry?.colrs?.find((box: { colour_type: string }) => box.colour_type === "nclx") ?? entry?.colr;
+  if (colr?.colour_type === "nclx") {
+    return {
+      primaries: colr.colour_primaries,
+      transfer: colr.transfer_characteristics,
+      matrix: colr.matrix_coefficients,
+      fullRange: colr.full_range_flag === 1,
+    };
+  }
+  const vpcC = entry?.vpcC;
+  if (vpcC?.version === 1) {
+    return {
+      primaries: vpcC.colourPrimaries,
+      transfer: vpcC.transferCharacteristics,
+      matrix: vpcC.matrixCoefficients,
+      fullRange: vpcC.videoFullRangeFlag === 1,
+    };
+  }
+  return undefined;
+};
+
+/** The first video track of an already parsed MP4, with the full sample table */
+export const getMp4VideoTrack = (mp4boxFile: MP4Box.ISOFile, info: MP4Box.Movie): DemuxedVideoTrack => {
+  const videoTrack = info.videoTracks[0];
+  if (!videoTrack) throw new Error("No video track found");
+
+  const { codec: codecString, description } = getVideoDecoderCodec(mp4boxFile, videoTrack);
+
+  // For AVC codecs, description is required
+  if (codecString.startsWith("avc") && !description) {
+    console.warn("No AVC description found, falling back to legacy method");
+    throw new Error("AVC description required for WebCodecs");
+  }
+
+  return {
+    config: {
+      codec: codecString,
+      codedWidth: videoTrack.video?.width || videoTrack.track_width,
+      codedHeight: videoTrack.video?.height || videoTrack.track_height,
+      description,
+    },
+    timescale: videoTrack.timescale,
+    samples: mp4boxFile.getTrackSamplesInfo(videoTrack.id),
+    display: getVideoDisplayTransform(mp4boxFile, videoTrack),
+  };
+};
+
+/** Parse the moov of an MP4 file and return its first video track with the full sample table */
+export const demuxMp4Video = async (file: Blob, signal?: AbortSignal): Promise<DemuxedVideoTrack> => {
+  const { mp4boxFile, info } = await probeMp4(file, signal);
+  return getMp4VideoTrack(mp4boxFile, info);
+};
+
+/** Build an AudioDecoderConfig for an mp4box audio track, or null if WebCodecs can't take it */
+export const getAudioDecoderConfig = (mp4boxFile: MP4Box.ISOFile, track: MP4Box.Track): AudioDecoderConfig | null => {
+  if (!track.audio) return null;
+  const entry = getSampleEntry(mp4boxFile, track.id);
+  const numberOfChannels = track.audio.channel_count;
+
+  if (track.codec.startsWith("mp4a")) {
+    // AudioSpecificConfig lives in esds -> DecoderConfigDescriptor -> DecoderSpecificInfo
+    const decoderSpecificInfo = entry?.esds?.esd?.findDescriptor(0x04)?.findDescriptor(0x05)?.data as Uint8Array | undefined;
+    return {
+      codec: track.codec,
+      sampleRate: track.audio.sample_rate,
+      numberOfChannels,
+      description: decoderSpecificInfo,
+    };
+  }
+
+  if (track.codec.toLowerCase() === "opus") {
+    const dOps = entry?.dOps;
+    return {
+      codec: "opus",
+      sampleRate: 48000,
+      numberOfChannels,
+      description: dOps ? buildOpusHead(numberOfChannels, dOps.InputSampleRate, dOps.PreSkip) : undefined,
+    };
+  }
+
+  return null;
+};
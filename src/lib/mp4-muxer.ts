@@ -0,0 +1,484 @@
+// Minimal ISO-BMFF (MP4) muxer for WebCodecs encoder output.
+// Samples are buffered in memory and written as ftyp + moov + mdat on finalize,
+// so the resulting file is "fast start" (moov before mdat).
+
+import {
+  buildAv1CodecConfig,
+  buildOpusHead,
+  concat,
+  copyChunk,
+  toUint8Array,
+  type ChunkMetadataLike,
+  type EncodedChunkLike,
+  type MuxedSample,
+} from "@/lib/muxer-utils";
+
+export interface Mp4VideoTrackOptions {
+  /** WebCodecs codec string, e.g. "avc1.42001E" or "vp09.00.10.08" */
+  codec: string;
+  width: number;
+  height: number;
+}
+
+export interface Mp4AudioTrackOptions {
+  /** WebCodecs codec string, e.g. "mp4a.40.2" or "opus" */
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface Mp4MuxerOptions {
+  video: Mp4VideoTrackOptions;
+  audio?: Mp4AudioTrackOptions;
+}
+
+interface MuxChunk {
+  offset: number;
+  sampleCount: number;
+}
+
+interface MuxTrack {
+  id: number;
+  handler: "vide" | "soun";
+  timescale: number;
+  samples: MuxedSample[];
+  chunks: MuxChunk[];
+  description?: Uint8Array;
+  sampleEntry: (track: MuxTrack) => Uint8Array;
+}
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const UINT32_MAX = 0xffffffff;
+
+const textEncoder = new TextEncoder();
+
+const u8 = (value: number) => new Uint8Array([value & 0xff]);
+
+const u16 = (value: number) => {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+};
+
+const u24 = (value: number) => new Uint8Array([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+};
+
+const u64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(value / 2 ** 32));
+  view.setUint32(4, value >>> 0);
+  return bytes;
+};
+
+const fixed16_16 = (value: number) => u32(Math.round(value * 0x10000));
+
+const zeros = (length: number) => new Uint8Array(length);
+
+const fourcc = (type: string) => textEncoder.encode(type);
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), fourcc(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version), u24(flags), ...payload);
+
+// Unity transformation matrix used by mvhd/tkhd
+const IDENTITY_MATRIX = concat([
+  u32(0x00010000), u32(0), u32(0),
+  u32(0), u32(0x00010000), u32(0),
+  u32(0), u32(0), u32(0x40000000),
+]);
+
+const visualSampleEntry = (type: string, width: number, height: number, ...children: Uint8Array[]) =>
+  box(
+    type,
+    zeros(6),
+    u16(1), // data_reference_index
+    u16(0),
+    u16(0),
+    zeros(12),
+    u16(width),
+    u16(height),
+    fixed16_16(72), // horizresolution
+    fixed16_16(72), // vertresolution
+    u32(0),
+    u16(1), // frame_count
+    zeros(32), // compressorname
+    u16(0x0018), // depth
+    u16(0xffff), // pre_defined = -1
+    ...children
+  );
+
+// "vp09.PP.LL.DD[.CC.cp.tc.mc.FF]" -> vpcC (version 1) payload
+const buildVpcC = (codec: string) => {
+  // Plain "vp8" carries no parameters, so it falls back to the defaults
+  const parts = codec.startsWith("vp8") ? [] : codec.split(".").slice(1).map((part) => parseInt(part, 10));
+  const [profile = 0, level = 10, bitDepth = 8, chromaSubsampling = 1,
+    colourPrimaries = 1, transferCharacteristics = 1, matrixCoefficients = 1, fullRange = 0] = parts;
+  return concat([
+    u8(profile),
+    u8(level),
+    u8((bitDepth << 4) | (chromaSubsampling << 1) | (fullRange & 1)),
+    u8(colourPrimaries),
+    u8(transferCharacteristics),
+    u8(matrixCoefficients),
+    u16(0), // codecIntializationDataSize
+  ]);
+};
+
+const createVideoSampleEntry = ({ codec, width, height }: Mp4VideoTrackOptions) => (track: MuxTrack) => {
+  const requireDescription = () => {
+    if (!track.description) {
+      throw new Error(`Missing decoder description for ${codec}`);
+    }
+    return track.description;
+  };
+
+  if (codec.startsWith("avc1") || codec.startsWith("avc3")) {
+    return visualSampleEntry("avc1", width, height, box("avcC", requireDescription()));
+  }
+  if (codec.startsWith("hvc1") || codec.startsWith("hev1")) {
+    return visualSampleEntry(codec.slice(0, 4), width, height, box("hvcC", requireDescription()));
+  }
+  if (codec.startsWith("av01")) {
+    return visualSampleEntry("av01", width, height, box("av1C", track.description ?? buildAv1CodecConfig(codec)));
+  }
+  if (codec.startsWith("vp09") || codec.startsWith("vp8")) {
+    return visualSampleEntry(codec.startsWith("vp8") ? "vp08" : "vp09", width, height, fullBox("vpcC", 1, 0, buildVpcC(codec)));
+  }
+  throw new Error(`Codec ${codec} cannot be muxed into MP4`);
+};
+
+// MPEG-4 descriptors use a variable-length size of up to four 7-bit groups
+const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  const size = [(body.length >> 21) & 0x7f, (body.length >> 14) & 0x7f, (body.length >> 7) & 0x7f, body.length & 0x7f];
+  return concat([u8(tag), new Uint8Array(size.map((value, index) => (index < 3 ? value | 0x80 : value))), body]);
+};
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// AAC-LC AudioSpecificConfig, used when the encoder doesn't provide a description
+const buildAudioSpecificConfig = (sampleRate: number, numberOfChannels: number) => {
+  const frequencyIndex = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (frequencyIndex < 0) throw new Error(`Unsupported AAC sample rate ${sampleRate}`);
+  return new Uint8Array([(2 << 3) | (frequencyIndex >> 1), ((frequencyIndex & 1) << 7) | (numberOfChannels << 3)]);
+};
+
+const buildEsds = (objectTypeIndication: number, decoderSpecificInfo?: Uint8Array) =>
+  fullBox(
+    "esds", 0, 0,
+    descriptor(
+      0x03, // ES_Descriptor
+      u16(0), // ES_ID
+      u8(0),
+      descriptor(
+        0x04, // DecoderConfigDescriptor
+        u8(objectTypeIndication),
+        u8((0x05 << 2) | 1), // streamType = audio
+        u24(0), // bufferSizeDB
+        u32(0), // maxBitrate
+        u32(0), // avgBitrate
+        ...(decoderSpecificInfo ? [descriptor(0x05, decoderSpecificInfo)] : [])
+      ),
+      descriptor(0x06, u8(0x02)) // SLConfigDescriptor, predefined MP4
+    )
+  );
+
+const audioSampleEntry = (type: string, sampleRate: number, numberOfChannels: number, ...children: Uint8Array[]) =>
+  box(
+    type,
+    zeros(6),
+    u16(1), // data_reference_index
+    zeros(8),
+    u16(numberOfChannels),
+    u16(16), // samplesize
+    u16(0),
+    u16(0),
+    u32(sampleRate > 0xffff ? 0 : sampleRate * 0x10000),
+    ...children
+  );
+
+const createAudioSampleEntry = ({ codec, sampleRate, numberOfChannels }: Mp4AudioTrackOptions) => (track: MuxTrack) => {
+  if (codec.startsWith("mp4a.40")) {
+    const config = track.description ?? buildAudioSpecificConfig(sampleRate, numberOfChannels);
+    return audioSampleEntry("mp4a", sampleRate, numberOfChannels, buildEsds(0x40, config));
+  }
+  if (codec === "mp3" || codec === "mp4a.6B" || codec === "mp4a.69") {
+    return audioSampleEntry("mp4a", sampleRate, numberOfChannels, buildEsds(0x6b));
+  }
+  if (codec === "opus") {
+    // dOps mirrors OpusHead, but big-endian and without the magic signature
+    const head = new DataView((track.description ?? buildOpusHead(numberOfChannels, sampleRate)).buffer);
+    const dOps = box(
+      "dOps",
+      u8(0),
+      u8(numberOfChannels),
+      u16(head.getUint16(10, true)), // PreSkip
+      u32(head.getUint32(12, true)), // InputSampleRate
+      u16(0), // OutputGain
+      u8(0) // ChannelMappingFamily
+    );
+    return audioSampleEntry("Opus", 48000, numberOfChannels, dOps);
+  }
+  throw new Error(`Codec ${codec} cannot be muxed into MP4`);
+};
+
+const toTicks = (microseconds: number, timescale: number) => Math.round((microseconds * timescale) / 1_000_000);
+
+// Resolve per-sample durations in track ticks from consecutive timestamps
+const getSampleTicks = (track: MuxTrack) => {
+  const { samples, timescale } = track;
+  const firstTimestamp = samples[0]?.timestamp ?? 0;
+  let lastDuration = 0;
+  const durations = samples.map((sample, index) => {
+    const next = samples[index + 1];
+    let duration: number;
+    if (next) {
+      duration = toTicks(next.timestamp - firstTimestamp, timescale) - toTicks(sample.timestamp - firstTimestamp, timescale);
+    } else if (sample.duration) {
+      duration = toTicks(sample.duration, timescale);
+    } else {
+      duration = lastDuration;
+    }
+    lastDuration = Math.max(0, duration);
+    return lastDuration;
+  });
+  const mediaDuration = durations.reduce((acc, duration) => acc + duration, 0);
+  return { durations, mediaDuration, startOffset: firstTimestamp };
+};
+
+const buildStts = (durations: number[]) => {
+  const entries: [number, number][] = [];
+  for (const duration of durations) {
+    const last = entries[entries.length - 1];
+    if (last && last[1] === duration) {
+      last[0]++;
+    } else {
+      entries.push([1, duration]);
+    }
+  }
+  return fullBox("stts", 0, 0, u32(entries.length), concat(entries.flatMap(([count, delta]) => [u32(count), u32(delta)])));
+};
+
+const buildStss = (samples: MuxedSample[]) => {
+  const syncNumbers = samples.flatMap((sample, index) => (sample.isSync ? [index + 1] : []));
+  // Absence of stss means every sample is a sync sample
+  if (syncNumbers.length === samples.length) return null;
+  return fullBox("stss", 0, 0, u32(syncNumbers.length), concat(syncNumbers.map(u32)));
+};
+
+const buildStsc = (chunks: MuxChunk[]) => {
+  const entries: [number, number][] = [];
+  chunks.forEach((chunk, index) => {
+    const last = entries[entries.length - 1];
+    if (!last || last[1] !== chunk.sampleCount) {
+      entries.push([index + 1, chunk.sampleCount]);
+    }
+  });
+  return fullBox(
+    "stsc", 0, 0,
+    u32(entries.length),
+    concat(entries.flatMap(([firstChunk, samplesPerChunk]) => [u32(firstChunk), u32(samplesPerChunk), u32(1)]))
+  );
+};
+
+const buildStsz = (samples: MuxedSample[]) =>
+  fullBox("stsz", 0, 0, u32(0), u32(samples.length), concat(samples.map((sample) => u32(sample.data.byteLength))));
+
+const buildChunkOffsets = (chunks: MuxChunk[], baseOffset: number, use64Bit: boolean) =>
+  use64Bit
+    ? fullBox("co64", 0, 0, u32(chunks.length), concat(chunks.map((chunk) => u64(baseOffset + chunk.offset))))
+    : fullBox("stco", 0, 0, u32(chunks.length), concat(chunks.map((chunk) => u32(baseOffset + chunk.offset))));
+
+const buildTrak = (track: MuxTrack, baseOffset: number, use64Bit: boolean, width: number, height: number) => {
+  const { durations, mediaDuration, startOffset } = getSampleTicks(track);
+  const movieDuration = Math.round((mediaDuration / track.timescale) * MOVIE_TIMESCALE);
+  const emptyEditDuration = Math.round((startOffset / 1_000_000) * MOVIE_TIMESCALE);
+  const isVideo = track.handler === "vide";
+
+  const tkhd = fullBox(
+    "tkhd", 0, 0x3, // track_enabled | track_in_movie
+    u32(0), u32(0),
+    u32(track.id),
+    u32(0),
+    u32(emptyEditDuration + movieDuration),
+    zeros(8),
+    u16(0), // layer
+    u16(0), // alternate_group
+    u16(isVideo ? 0 : 0x0100), // volume
+    u16(0),
+    IDENTITY_MATRIX,
+    fixed16_16(isVideo ? width : 0),
+    fixed16_16(isVideo ? height : 0)
+  );
+
+  // Delay tracks that don't start at zero with an empty edit
+  const edts = emptyEditDuration > 0
+    ? box("edts", fullBox(
+        "elst", 0, 0,
+        u32(2),
+        u32(emptyEditDuration), u32(UINT32_MAX), u32(0x00010000),
+        u32(movieDuration), u32(0), u32(0x00010000)
+      ))
+    : null;
+
+  const mdhd = fullBox(
+    "mdhd", 0, 0,
+    u32(0), u32(0),
+    u32(track.timescale),
+    u32(mediaDuration),
+    u16(0x55c4), // "und"
+    u16(0)
+  );
+
+  const hdlr = fullBox(
+    "hdlr", 0, 0,
+    u32(0),
+    fourcc(track.handler),
+    zeros(12),
+    textEncoder.encode(isVideo ? "VideoHandler\0" : "SoundHandler\0")
+  );
+
+  const mediaHeader = isVideo
+    ? fullBox("vmhd", 0, 1, u16(0), zeros(6))
+    : fullBox("smhd", 0, 0, u16(0), u16(0));
+
+  const dinf = box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1)));
+
+  const stssBox = buildStss(track.samples);
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), track.sampleEntry(track)),
+    buildStts(durations),
+    ...(stssBox ? [stssBox] : []),
+    buildStsc(track.chunks),
+    buildStsz(track.samples),
+    buildChunkOffsets(track.chunks, baseOffset, use64Bit)
+  );
+
+  const trak = box(
+    "trak",
+    tkhd,
+    ...(edts ? [edts] : []),
+    box("mdia", mdhd, hdlr, box("minf", mediaHeader, dinf, stbl))
+  );
+
+  return { trak, duration: emptyEditDuration + movieDuration };
+};
+
+export const createMp4Muxer = (options: Mp4MuxerOptions) => {
+  const videoTrack: MuxTrack = {
+    id: 1,
+    handler: "vide",
+    timescale: VIDEO_TIMESCALE,
+    samples: [],
+    chunks: [],
+    sampleEntry: createVideoSampleEntry(options.video),
+  };
+  const audioTrack: MuxTrack | null = options.audio
+    ? {
+        id: 2,
+        handler: "soun",
+        timescale: options.audio.sampleRate,
+        samples: [],
+        chunks: [],
+        sampleEntry: createAudioSampleEntry(options.audio),
+      }
+    : null;
+  const tracks = audioTrack ? [videoTrack, audioTrack] : [videoTrack];
+
+  // Sample payloads in the order they will appear inside mdat
+  const mdatParts: Uint8Array[] = [];
+  let mdatSize = 0;
+  let lastWrittenTrack: MuxTrack | null = null;
+  let finalized = false;
+
+  const addSample = (track: MuxTrack, chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => {
+    if (finalized) throw new Error("Muxer already finalized");
+
+    const description = meta?.decoderConfig?.description;
+    if (description && !track.description) {
+      track.description = toUint8Array(description);
+    }
+
+    const sample = copyChunk(chunk);
+
+    // Consecutive samples of the same track share one chunk
+    if (lastWrittenTrack !== track) {
+      track.chunks.push({ offset: mdatSize, sampleCount: 0 });
+      lastWrittenTrack = track;
+    }
+    track.chunks[track.chunks.length - 1].sampleCount++;
+
+    track.samples.push(sample);
+    mdatParts.push(sample.data);
+    mdatSize += sample.data.byteLength;
+  };
+
+  const addVideoChunk = (chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => addSample(videoTrack, chunk, meta);
+
+  const addAudioChunk = (chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => {
+    if (!audioTrack) throw new Error("Muxer was created without an audio track");
+    addSample(audioTrack, chunk, meta);
+  };
+
+  const buildMoov = (baseOffset: number, use64Bit: boolean) => {
+    const activeTracks = tracks.filter((track) => track.samples.length > 0);
+    const traks = activeTracks.map((track) =>
+      buildTrak(track, baseOffset, use64Bit, options.video.width, options.video.height)
+    );
+    const duration = Math.max(0, ...traks.map((trak) => trak.duration));
+
+    const mvhd = fullBox(
+      "mvhd", 0, 0,
+      u32(0), u32(0),
+      u32(MOVIE_TIMESCALE),
+      u32(duration),
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10),
+      IDENTITY_MATRIX,
+      zeros(24),
+      u32(tracks.length + 1) // next_track_ID
+    );
+
+    return box("moov", mvhd, ...traks.map((trak) => trak.trak));
+  };
+
+  const finalize = (): Blob => {
+    if (videoTrack.samples.length === 0) throw new Error("No video samples to mux");
+    finalized = true;
+
+    const codec = options.video.codec;
+    const brands = ["isom", "iso2", "mp41"];
+    if (codec.startsWith("avc")) brands.push("avc1");
+    if (codec.startsWith("av01")) brands.push("av01");
+    const ftyp = box("ftyp", fourcc("isom"), u32(0x200), ...brands.map(fourcc));
+
+    const largeMdat = mdatSize + 8 > UINT32_MAX;
+    const mdatHeader = largeMdat
+      ? concat([u32(1), fourcc("mdat"), u64(mdatSize + 16)])
+      : concat([u32(mdatSize + 8), fourcc("mdat")]);
+
+    // Offsets depend on moov size, which doesn't depend on the offset values themselves
+    const use64Bit = mdatSize + 1024 * 1024 > UINT32_MAX;
+    const moovSize = buildMoov(0, use64Bit).length;
+    const moov = buildMoov(ftyp.length + moovSize + mdatHeader.length, use64Bit);
+
+    return new Blob([ftyp, moov, mdatHeader, ...mdatParts], { type: "video/mp4" });
+  };
+
+  return { addVideoChunk, addAudioChunk, finalize };
+};
+
+export type Mp4Muxer = ReturnType<typeof createMp4Muxer>;
@@ -0,0 +1,82 @@
+// Helpers shared by the MP4 and WebM muxers
+
+/** The subset of EncodedVideoChunk / EncodedAudioChunk the muxers rely on */
+export type EncodedChunkLike = Pick<EncodedVideoChunk, "type" | "timestamp" | "duration" | "byteLength" | "copyTo">;
+
+export interface ChunkMetadataLike {
+  decoderConfig?: {
+    description?: AllowSharedBufferSource;
+  };
+}
+
+export interface MuxedSample {
+  data: Uint8Array;
+  /** Presentation timestamp in microseconds */
+  timestamp: number;
+  /** Duration in microseconds, when the encoder reported one */
+  duration: number | null;
+  isSync: boolean;
+}
+
+export const concat = (parts: Uint8Array[]) => {
+  const length = parts.reduce((acc, part) => acc + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const toUint8Array = (source: AllowSharedBufferSource) => {
+  if (source instanceof Uint8Array) return new Uint8Array(source);
+  if (ArrayBuffer.isView(source)) {
+    return new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+  }
+  return new Uint8Array(source.slice(0));
+};
+
+export const copyChunk = (chunk: EncodedChunkLike): MuxedSample => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return {
+    data,
+    timestamp: chunk.timestamp,
+    duration: chunk.duration,
+    isSync: chunk.type === "key",
+  };
+};
+
+// "av01.P.LLT.DD[.M.CCC.cp.tc.mc.F]" -> AV1CodecConfigurationRecord without configOBUs
+export const buildAv1CodecConfig = (codec: string) => {
+  const [, profile = "0", levelTier = "04M", depth = "08", mono = "0", chroma = "110"] = codec.split(".");
+  const seqProfile = parseInt(profile, 10);
+  const seqLevelIdx = parseInt(levelTier.slice(0, 2), 10);
+  const tier = levelTier[2] === "H" ? 1 : 0;
+  const bitDepth = parseInt(depth, 10);
+  const highBitdepth = bitDepth > 8 ? 1 : 0;
+  const twelveBit = bitDepth === 12 ? 1 : 0;
+  const [subX = 1, subY = 1, samplePosition = 0] = chroma.split("").map((digit) => parseInt(digit, 10));
+  return new Uint8Array([
+    0x81, // marker + version 1
+    (seqProfile << 5) | seqLevelIdx,
+    (tier << 7) | (highBitdepth << 6) | (twelveBit << 5) | (parseInt(mono, 10) << 4) |
+      (subX << 3) | (subY << 2) | samplePosition,
+    0, // no initial_presentation_delay
+  ]);
+};
+
+/** Identification header used as Opus codec configuration (RFC 7845, section 5.1) */
+export const buildOpusHead = (numberOfChannels: number, sampleRate: number, preSkip = 0) => {
+  const bytes = new Uint8Array(19);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("OpusHead"), 0);
+  bytes[8] = 1; // version
+  bytes[9] = numberOfChannels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  bytes[18] = 0; // channel mapping family
+  return bytes;
+};
@@ -0,0 +1,82 @@
+import type { DisplayTransform } from "@/lib/display-transform";
+
+// Sample tables shared by the MP4 and WebM demuxers. Samples point at their payload in the file,
+// so decoders can read exactly the byte ranges they need instead of streaming the whole file.
+
+/** The subset of mp4box's Sample the decoders rely on; the WebM demuxer produces the same shape */
+export interface MediaSample {
+  /** Index in decode order */
+  number: number;
+  /** Byte offset of the payload in the file */
+  offset: number;
+  size: number;
+  /** Composition (presentation) time, in track timescale units */
+  cts: number;
+  duration: number;
+  is_sync: boolean;
+}
+
+const MAX_SAMPLE_BATCH_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Split samples into batches that can each be fetched with a single file read:
+ * offsets must increase and a batch spans at most a few megabytes.
+ */
+export const getSampleBatches = <T extends MediaSample>(samples: T[]) => {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  for (const sample of samples) {
+    const first = current[0];
+    const previous = current[current.length - 1];
+    const fits = first &&
+      sample.offset >= previous.offset + previous.size &&
+      sample.offset + sample.size - first.offset <= MAX_SAMPLE_BATCH_BYTES;
+    if (!fits && current.length > 0) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(sample);
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+/** Read the payloads of a batch produced by getSampleBatches */
+export const readSampleBatch = async (file: Blob, batch: MediaSample[]) => {
+  const start = batch[0].offset;
+  const last = batch[batch.length - 1];
+  const bytes = new Uint8Array(await file.slice(start, last.offset + last.size).arrayBuffer());
+  return batch.map((sample) => bytes.subarray(sample.offset - start, sample.offset - start + sample.size));
+};
+
+/** A video track ready for VideoDecoder: its configuration plus a sample table in decode order */
+export interface DemuxedVideoTrack {
+  config: VideoDecoderConfig;
+  /** Ticks per second for the samples' `cts`/`duration` */
+  timescale: number;
+  samples: MediaSample[];
+  display: DisplayTransform;
+}
+
+/**
+ * Frame count, duration and frame rate measured from the sample table itself. Header fields like
+ * nb_samples or the track duration are zero in fragmented MP4s, where samples live in moof boxes.
+ */
+export const getSampleTableStats = (samples: MediaSample[], timescale: number) => {
+  let start = Infinity;
+  let end = 0;
+  for (const sample of samples) {
+    start = Math.min(start, sample.cts);
+    end = Math.max(end, sample.cts + sample.duration);
+  }
+  const duration = samples.length > 0 ? (end - start) / timescale : 0;
+  return {
+    frameCount: samples.length,
+    duration,
+    frameRate: duration > 0 ? Math.round((samples.length / duration) * 100) / 100 : 0,
+    keyframeTimes: samples
+      .filter((sample) => sample.is_sync)
+      .map((sample) => sample.cts / timescale)
+      .sort((a, b) => a - b),
+  };
+};
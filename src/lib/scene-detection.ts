@@ -0,0 +1,79 @@
+import { formatTimecode } from "@/lib/timecode";
+import { toCsvRow } from "@/lib/csv";
+
+// Frames are compared on a tiny grayscale thumbnail; enough to spot cuts, cheap enough for every frame
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 36;
+
+export interface SceneDetectorOptions {
+  /** Mean absolute luma difference (0-1) that counts as a cut */
+  threshold: number;
+  /** Minimum time between two cuts, in seconds */
+  minGap: number;
+}
+
+export interface SceneCut {
+  /** Seconds */
+  timestamp: number;
+  /** Difference to the previous frame (0-1); 1 for the first frame */
+  score: number;
+  fileName?: string;
+}
+
+/** Mean absolute difference between two equally sized luma buffers, normalized to 0-1 */
+export const lumaDifference = (a: Uint8Array, b: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return a.length > 0 ? sum / (a.length * 255) : 0;
+};
+
+/** Downscale a frame and return its BT.601 luma plane */
+export const createLumaSampler = () => {
+  const canvas = typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+    : Object.assign(document.createElement("canvas"), { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT });
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D;
+
+  const sample = (source: CanvasImageSource) => {
+    ctx.drawImage(source, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    const luma = new Uint8Array(THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    return luma;
+  };
+
+  return { sample };
+};
+
+/**
+ * Decide, frame by frame, where a new shot starts. The first frame always starts a shot;
+ * later frames do when they differ enough from the previous one and `minGap` has passed.
+ */
+export const createSceneDetector = ({ threshold, minGap }: SceneDetectorOptions) => {
+  let previous: Uint8Array | null = null;
+  let lastCut = -Infinity;
+
+  /** Returns the cut when `luma` starts a new shot, null otherwise */
+  const push = (luma: Uint8Array, timestamp: number): SceneCut | null => {
+    const score = previous ? lumaDifference(previous, luma) : 1;
+    previous = luma;
+    if (score < threshold || timestamp - lastCut < minGap) return null;
+    lastCut = timestamp;
+    return { timestamp, score };
+  };
+
+  return { push };
+};
+
+export const buildCutListCsv = (cuts: SceneCut[]) => {
+  const rows = cuts.map((cut, index) =>
+    toCsvRow([index + 1, cut.timestamp.toFixed(3), formatTimecode(cut.timestamp), cut.score.toFixed(4), cut.fileName])
+  );
+  return ["shot,seconds,timecode,score,file", ...rows].join("\n") + "\n";
+};
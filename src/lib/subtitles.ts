@@ -0,0 +1,130 @@
+import { parseTimecode } from "@/lib/timecode";
+import { getSampleBatches, readSampleBatch } from "@/lib/sample-table";
+import type { MediaInfo, MediaTrackInfo } from "@/lib/media-probe";
+
+// Subtitle cues from WebVTT/SRT files or from timed-text tracks muxed into an MP4 (3GPP tx3g and
+// ISO WebVTT), for extracting one frame per cue. Styling is dropped: only the timing and plain
+// text are kept.
+
+export interface SubtitleCue {
+  /** Seconds */
+  start: number;
+  /** Seconds */
+  end: number;
+  text: string;
+}
+
+/** A frame saved for a cue, as written to the subtitle manifest */
+export interface SubtitleFrame {
+  fileName: string;
+  /** Seconds, the cue midpoint */
+  time: number;
+  cue: SubtitleCue;
+}
+
+const MP4_SUBTITLE_CODECS = ["tx3g", "wvtt"];
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", nbsp: " ", quot: '"', apos: "'" };
+
+/** Strip WebVTT/HTML tags and SRT override codes like {\an8} */
+const toPlainText = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&(amp|lt|gt|nbsp|quot|apos);/g, (_, name: string) => ENTITIES[name])
+    .trim();
+
+export const getCueMidpoint = (cue: SubtitleCue) => (cue.start + cue.end) / 2;
+
+/** Parse a WebVTT or SRT file; blocks without a valid timing line (headers, NOTE, STYLE) are skipped */
+export const parseSubtitleFile = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, "").split(/\r?\n\s*\r?\n/);
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+    // WebVTT cue settings may follow the end time
+    const [startText, endText] = lines[timingIndex].split("-->").map((part) => part.trim().split(/\s+/)[0]);
+    const start = parseTimecode(startText);
+    const end = parseTimecode(endText);
+    if (start === null || end === null || end < start) continue;
+    const cueText = toPlainText(lines.slice(timingIndex + 1).join("\n"));
+    if (cueText) cues.push({ start, end, text: cueText });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const isMp4SubtitleTrack = (track: MediaTrackInfo) =>
+  track.kind !== "video" && track.kind !== "audio" && MP4_SUBTITLE_CODECS.includes(track.codec);
+
+/** Timed-text tracks of an MP4 that readSubtitleTrack can read */
+export const getSubtitleTracks = (info: MediaInfo) =>
+  info.container === "mp4" ? info.tracks.filter(isMp4SubtitleTrack) : [];
+
+const textDecoder = new TextDecoder();
+
+/** tx3g sample: a 16-bit text length, the UTF-8 (or UTF-16 with BOM) text, then style boxes */
+const readTx3gText = (payload: Uint8Array) => {
+  if (payload.length < 2) return "";
+  const length = (payload[0] << 8) | payload[1];
+  const text = payload.subarray(2, 2 + length);
+  if (text[0] === 0xfe && text[1] === 0xff) return new TextDecoder("utf-16be").decode(text.subarray(2));
+  return textDecoder.decode(text);
+};
+
+/** Iterate the boxes directly inside `bytes` */
+const readBoxes = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: { type: string; payload: Uint8Array }[] = [];
+  for (let offset = 0; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > bytes.length) break;
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    boxes.push({ type, payload: bytes.subarray(offset + 8, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** wvtt sample: one vttc box per cue active in the sample, each carrying its text in payl; vtte is a gap */
+const readWvttTexts = (payload: Uint8Array) =>
+  readBoxes(payload)
+    .filter((box) => box.type === "vttc")
+    .map((cue) => readBoxes(cue.payload).find((box) => box.type === "payl"))
+    .filter((payl) => payl !== undefined)
+    .map((payl) => textDecoder.decode(payl.payload));
+
+/** Read the cues of a tx3g or wvtt track found by probeMedia */
+export const readSubtitleTrack = async (file: Blob, track: MediaTrackInfo): Promise<SubtitleCue[]> => {
+  const cues: SubtitleCue[] = [];
+  for (const batch of getSampleBatches(track.samples.filter((sample) => sample.size > 0))) {
+    const payloads = await readSampleBatch(file, batch);
+    batch.forEach((sample, index) => {
+      const start = sample.cts / track.timescale;
+      const end = (sample.cts + sample.duration) / track.timescale;
+      const texts = track.codec === "tx3g" ? [readTx3gText(payloads[index])] : readWvttTexts(payloads[index]);
+      for (const text of texts.map(toPlainText).filter(Boolean)) {
+        // wvtt splits overlapping cues into samples; join the pieces of a cue that continues
+        const previous = cues.find((cue) => cue.text === text && Math.abs(cue.end - start) < 1e-6);
+        if (previous) previous.end = end;
+        else cues.push({ start, end, text });
+      }
+    });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/** JSON manifest pairing each saved image with the cue it was taken from */
+export const buildSubtitleManifest = (frames: SubtitleFrame[]) =>
+  JSON.stringify(
+    frames.map((frame) => ({
+      file: frame.fileName,
+      time: Number(frame.time.toFixed(3)),
+      start: Number(frame.cue.start.toFixed(3)),
+      end: Number(frame.cue.end.toFixed(3)),
+      text: frame.cue.text,
+    })),
+    null,
+    2
+  ) + "\n";
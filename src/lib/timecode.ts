@@ -0,0 +1,42 @@
+/** Format seconds as HH:MM:SS.mmm */
+export const formatTimecode = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}.${String(ms).padStart(3, "0")}`;
+};
+
+/**
+ * Parse "HH:MM:SS.mmm", "MM:SS(.mmm)" or plain seconds into seconds.
+ * Returns null when the text isn't a valid timecode.
+ */
+export const parseTimecode = (text: string): number | null => {
+  const parts = text.trim().replace(",", ".").split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  // Only the last field may carry a fraction
+  if (parts.slice(0, -1).some((part) => part.includes("."))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/**
+ * Parse an SMPTE timecode, "HH:MM:SS:FF" or drop-frame "HH:MM:SS;FF", into seconds at `frameRate`.
+ * Returns null when the text isn't a valid timecode for that rate.
+ */
+export const parseSmpteTimecode = (text: string, frameRate: number): number | null => {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})([:;])(\d{1,3})$/.exec(text.trim());
+  if (!match || !(frameRate > 0)) return null;
+  const [hours, minutes, seconds, , frames] = [1, 2, 3, 4, 5].map((i) => Number(match[i]));
+  const nominalRate = Math.round(frameRate);
+  if (minutes > 59 || seconds > 59 || frames >= nominalRate) return null;
+
+  let frameNumber = ((hours * 60 + minutes) * 60 + seconds) * nominalRate + frames;
+  if (match[4] === ";") {
+    // Drop-frame skips the first frame numbers of every minute except each tenth one
+    const dropped = Math.round(nominalRate / 15);
+    const totalMinutes = hours * 60 + minutes;
+    frameNumber -= dropped * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frameNumber / frameRate;
+};
@@ -0,0 +1,82 @@
+import { parseSmpteTimecode, parseTimecode } from "@/lib/timecode";
+
+// Lists of source times to extract, pasted or loaded from a file. Accepts plain text with one time
+// per line, CSV with the time in the first column, or JSON; each time can be seconds,
+// HH:MM:SS.mmm or an SMPTE timecode.
+
+export interface TimestampList {
+  /** Seconds, sorted and without duplicates */
+  times: number[];
+  /** Entries that couldn't be read as a time */
+  invalid: string[];
+}
+
+// Object keys read as a time in JSON entries like { "time": "00:01:02.500", "note": "..." }
+const TIME_KEYS = ["time", "timestamp", "timecode", "seconds", "start"];
+// SRT-style "HH:MM:SS,mmm", the one form where a comma is a decimal point rather than a CSV delimiter
+const COMMA_DECIMAL_TIMECODE = /^\d+:\d{1,2}:\d{1,2},\d{3}$/;
+
+export const parseTimestamp = (text: string, frameRate: number) =>
+  parseTimecode(text) ?? parseSmpteTimecode(text, frameRate);
+
+const toSortedUnique = (times: number[]) => [...new Set(times)].sort((a, b) => a - b);
+
+const parseJsonEntries = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") {
+    const list = Object.values(value).find(Array.isArray);
+    if (list) return list;
+  }
+  return [value];
+};
+
+const parseJsonList = (json: unknown, frameRate: number): TimestampList => {
+  const times: number[] = [];
+  const invalid: string[] = [];
+  for (const entry of parseJsonEntries(json)) {
+    let value = entry;
+    if (entry && typeof entry === "object") {
+      const record = entry as Record<string, unknown>;
+      const key = TIME_KEYS.find((name) => name in record);
+      value = key ? record[key] : undefined;
+    }
+    const time = typeof value === "number" ? value : typeof value === "string" ? parseTimestamp(value, frameRate) : null;
+    if (time !== null && Number.isFinite(time) && time >= 0) {
+      times.push(time);
+    } else {
+      invalid.push(JSON.stringify(entry));
+    }
+  }
+  return { times: toSortedUnique(times), invalid };
+};
+
+const parseTextList = (text: string, frameRate: number): TimestampList => {
+  const times: number[] = [];
+  const invalid: string[] = [];
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  lines.forEach((line, index) => {
+    // "00:00:01,500" is a whole time; otherwise the time is the first CSV column
+    const cell = COMMA_DECIMAL_TIMECODE.test(line) ? line : line.split(/[,;\t]/)[0].trim().replace(/^"(.*)"$/, "$1");
+    const time = parseTimestamp(cell, frameRate);
+    if (time !== null) {
+      times.push(time);
+    } else if (index > 0) {
+      invalid.push(line);
+    }
+    // An unreadable first line is a CSV header
+  });
+  return { times: toSortedUnique(times), invalid };
+};
+
+/** Read a list of timestamps; `frameRate` is needed for SMPTE frame numbers */
+export const parseTimestampList = (text: string, frameRate: number): TimestampList => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      return parseJsonList(JSON.parse(trimmed), frameRate);
+    } catch {
+      // Not JSON after all, read it line by line
+    }
+  }
+  return parseTextList(trimmed, frameRate);
+};
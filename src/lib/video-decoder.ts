@@ -0,0 +1,281 @@
+import { demuxMp4Video } from "@/lib/mp4-demux";
+import { demuxWebmVideo, getWebmDecoderConfig, isEbmlFile } from "@/lib/webm-demux";
+import { getSampleBatches, readSampleBatch, type DemuxedVideoTrack, type MediaSample } from "@/lib/sample-table";
+
+// Stop reading ahead while this many chunks are waiting in the decoder
+const MAX_DECODE_QUEUE = 32;
+
+export interface TimeRange {
+  /** Seconds */
+  start: number;
+  /** Seconds */
+  end: number;
+}
+
+export interface DecodeVideoOptions {
+  signal?: AbortSignal;
+  /** Receives every decoded frame in presentation order; the callee must close it */
+  onFrame: (frame: VideoFrame) => void;
+  /** Called once the decoder has been configured for the file's video track */
+  onConfig?: (config: VideoDecoderConfig, track: DemuxedVideoTrack) => void;
+  /** Extra backpressure, e.g. waiting for a downstream encoder to drain */
+  waitForCapacity?: () => Promise<void>;
+  /** Only frames presented inside this range reach onFrame */
+  range?: TimeRange;
+  /** Decode only sync samples, flushing after each so every keyframe comes out on its own */
+  keyframesOnly?: boolean;
+  /**
+   * Sparse mode: only the first frame presented at or after each of these times (seconds) reaches onFrame,
+   * and only the GOPs holding those frames are decoded
+   */
+  targetTimes?: number[];
+  /**
+   * Index mode: called with the presentation times (seconds, in order) of the frames inside `range`; only the
+   * frames at the returned indices reach onFrame, and only the GOPs holding them are decoded
+   */
+  selectFrames?: (frameTimes: number[]) => number[];
+}
+
+export interface SparseDecodeStep {
+  /** Samples to decode, in decode order, starting at a sync sample */
+  samples: MediaSample[];
+  /** Composition times of the frames wanted from this step */
+  targets: number[];
+}
+
+const waitFor = (condition: () => boolean) =>
+  new Promise<void>((resolve) => {
+    const check = () => (condition() ? resolve() : setTimeout(check, 5));
+    check();
+  });
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Extraction cancelled", "AbortError");
+};
+
+/**
+ * Pick the samples (in decode order) needed to present every frame inside `range`:
+ * from the last sync sample at or before the start, up to the first sync sample after the end.
+ */
+export const getSamplesForRange = <T extends MediaSample>(samples: T[], timescale: number, range?: TimeRange) => {
+  if (!range) return samples;
+  const startTicks = range.start * timescale;
+  const endTicks = range.end * timescale;
+
+  let first = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i].is_sync && samples[i].cts <= startTicks) first = i;
+    if (samples[i].cts > startTicks && samples[i].is_sync) break;
+  }
+
+  let last = samples.length;
+  for (let i = first + 1; i < samples.length; i++) {
+    if (samples[i].is_sync && samples[i].cts > endTicks) {
+      last = i;
+      break;
+    }
+  }
+
+  return samples.slice(first, last);
+};
+
+/** Composition times (track ticks) of the frames presented inside `range`, in presentation order */
+export const getFrameTimesInRange = (samples: MediaSample[], timescale: number, range?: TimeRange) =>
+  samples
+    .map((sample) => sample.cts)
+    .filter((cts) => !range || (cts / timescale >= range.start && cts / timescale <= range.end))
+    .sort((a, b) => a - b);
+
+/**
+ * Map each target time to the first frame presented at or after it, and group those frames by GOP.
+ * Each step ends at the last wanted frame in decode order, so the rest of the GOP is never decoded.
+ */
+export const planSparseDecode = (samples: MediaSample[], timescale: number, targetTimes: number[]) => {
+  const presentationOrder = samples
+    .map((sample, index) => ({ cts: sample.cts, index }))
+    .sort((a, b) => a.cts - b.cts);
+
+  const gopStarts: number[] = [];
+  let gopStart = 0;
+  samples.forEach((sample, index) => {
+    if (sample.is_sync) gopStart = index;
+    gopStarts.push(gopStart);
+  });
+
+  const steps = new Map<number, { end: number; targets: Set<number> }>();
+  let cursor = 0;
+  for (const time of [...targetTimes].sort((a, b) => a - b)) {
+    const ticks = time * timescale;
+    // Small tolerance so a frame exactly on the target isn't skipped due to float rounding
+    while (cursor < presentationOrder.length && presentationOrder[cursor].cts < ticks - 1e-3) cursor++;
+    if (cursor >= presentationOrder.length) break;
+
+    const { cts, index } = presentationOrder[cursor];
+    const start = gopStarts[index];
+    const step = steps.get(start) ?? { end: index, targets: new Set<number>() };
+    step.end = Math.max(step.end, index);
+    step.targets.add(cts);
+    steps.set(start, step);
+  }
+
+  return [...steps.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, step]): SparseDecodeStep => ({
+      samples: samples.slice(start, step.end + 1),
+      targets: [...step.targets],
+    }));
+};
+
+const DEMUXABLE_TYPES = ["video/mp4", "video/webm", "video/x-matroska"];
+
+/** Whether the file looks like a container decodeVideo can demux (MP4, WebM or MKV) */
+export const canDemuxVideo = (file: File) =>
+  DEMUXABLE_TYPES.includes(file.type) || /\.(mp4|webm|mkv)$/i.test(file.name);
+
+/** Demux the first video track of an MP4 or WebM/Matroska file, picking the demuxer from the file's signature */
+export const demuxVideo = async (file: Blob, signal?: AbortSignal): Promise<DemuxedVideoTrack> => {
+  if (!(await isEbmlFile(file))) return demuxMp4Video(file, signal);
+
+  const track = await demuxWebmVideo(file, signal);
+  const config = await getWebmDecoderConfig(file, track);
+  if (!config) throw new Error(`Codec ${track.codecId} is not supported`);
+  return {
+    config,
+    timescale: track.timescale,
+    samples: track.samples,
+    display: { rotation: 0, pixelAspectRatio: track.pixelAspectRatio },
+  };
+};
+
+/**
+ * Demux the first video track of an MP4 or WebM file and decode it sequentially with VideoDecoder.
+ * Rejects with an AbortError when `signal` fires, and with a regular error when WebCodecs can't
+ * handle the track, so callers can fall back to seeking a <video> element.
+ */
+export const decodeVideo = async (file: File, options: DecodeVideoOptions): Promise<void> => {
+  const { signal, onFrame, onConfig, waitForCapacity, range, keyframesOnly, targetTimes, selectFrames } = options;
+  throwIfAborted(signal);
+
+  const track = await demuxVideo(file, signal);
+  throwIfAborted(signal);
+
+  const trackTimescale = track.timescale;
+
+  const rangeStartUs = range ? range.start * 1000000 : -Infinity;
+  const rangeEndUs = range ? range.end * 1000000 : Infinity;
+  // Convert from track timescale to microseconds
+  const toMicroseconds = (ticks: number) => Math.floor((ticks / trackTimescale) * 1000000);
+  // In sparse mode, only these frame timestamps reach onFrame
+  let wantedTimestamps: Set<number> | null = null;
+
+  // Errors raised inside decoder callbacks are surfaced at the next checkpoint
+  let failure: unknown = null;
+  const fail = (e: unknown) => {
+    failure ??= e;
+  };
+  const checkpoint = () => {
+    throwIfAborted(signal);
+    if (failure) throw failure;
+  };
+
+  let decoderClosed = false;
+  const decoder = new VideoDecoder({
+    output: (frame: VideoFrame) => {
+      // Frames decoded only as references for the range are dropped here
+      if (
+        failure ||
+        frame.timestamp < rangeStartUs ||
+        frame.timestamp > rangeEndUs ||
+        (wantedTimestamps && !wantedTimestamps.has(frame.timestamp))
+      ) {
+        frame.close();
+        return;
+      }
+      try {
+        onFrame(frame);
+      } catch (e) {
+        frame.close();
+        fail(e);
+      }
+    },
+    error: (e) => {
+      console.error("Decoder error:", e);
+      if (!decoderClosed) {
+        fail(e);
+      }
+    },
+  });
+
+  // Close the decoder right away on cancel so no more frames are produced
+  const abortHandler = () => {
+    decoderClosed = true;
+    decoder.close();
+  };
+  signal?.addEventListener("abort", abortHandler, { once: true });
+
+  try {
+    const codecConfig: VideoDecoderConfig = {
+      ...track.config,
+      hardwareAcceleration: "prefer-hardware" as HardwareAcceleration,
+    };
+    decoder.configure(codecConfig);
+    onConfig?.(codecConfig, track);
+
+    // Each step is decoded and then flushed, so the decoder doesn't hold frames back waiting for later samples
+    const allSamples = track.samples;
+    let steps: MediaSample[][];
+    if (targetTimes || selectFrames) {
+      let times = targetTimes ?? [];
+      if (selectFrames) {
+        // Exact frame times, so each index maps to its own frame regardless of frame rate changes
+        const frameTimes = getFrameTimesInRange(allSamples, trackTimescale, range).map((cts) => cts / trackTimescale);
+        times = selectFrames(frameTimes)
+          .filter((index) => index >= 0 && index < frameTimes.length)
+          .map((index) => frameTimes[index]);
+      }
+      const plan = planSparseDecode(allSamples, trackTimescale, times);
+      wantedTimestamps = new Set(plan.flatMap((step) => step.targets.map(toMicroseconds)));
+      steps = plan.map((step) => step.samples);
+    } else {
+      const samples = getSamplesForRange(allSamples, trackTimescale, range);
+      steps = keyframesOnly
+        ? samples.filter((sample) => sample.is_sync).map((sample) => [sample])
+        : [samples];
+    }
+
+    for (const step of steps) {
+      for (const batch of getSampleBatches(step)) {
+        await waitFor(() => decoderClosed || decoder.decodeQueueSize < MAX_DECODE_QUEUE);
+        await waitForCapacity?.();
+        checkpoint();
+
+        const payloads = await readSampleBatch(file, batch);
+        checkpoint();
+
+        batch.forEach((sample, index) => {
+          decoder.decode(new EncodedVideoChunk({
+            type: sample.is_sync ? "key" : "delta",
+            timestamp: toMicroseconds(sample.cts || 0),
+            duration: toMicroseconds(sample.duration || 0),
+            data: payloads[index],
+          }));
+        });
+      }
+
+      // Wait for decoder to finish
+      await decoder.flush();
+      checkpoint();
+    }
+  } catch (e) {
+    // If WebCodecs decoding fails (common with missing/invalid description or keyframe requirements),
+    // surface it so the caller can fall back to the legacy extractor.
+    throwIfAborted(signal);
+    throw failure ?? e;
+  } finally {
+    signal?.removeEventListener("abort", abortHandler);
+    if (!decoderClosed) {
+      decoderClosed = true;
+      decoder.close();
+    }
+  }
+};
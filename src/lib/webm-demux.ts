@@ -0,0 +1,396 @@
+import {
+  av1CodecStringFromConfig,
+  avcCodecStringFromConfig,
+  parseVp9KeyframeHeader,
+  vp9CodecString,
+} from "@/lib/codec-strings";
+import { readSampleBatch, type MediaSample } from "@/lib/sample-table";
+import type { VideoColorInfo } from "@/lib/display-transform";
+
+// Matroska element IDs (with their length marker bits)
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Language: 0x22b59c,
+  LanguageBCP47: 0x22b59d,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  DisplayWidth: 0x54b0,
+  DisplayHeight: 0x54ba,
+  Colour: 0x55b0,
+  MatrixCoefficients: 0x55b1,
+  Range: 0x55b9,
+  TransferCharacteristics: 0x55ba,
+  Primaries: 0x55bb,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  BitDepth: 0x6264,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+};
+
+// Segment children; reaching one of these ends a Cluster of unknown size (as written by MediaRecorder)
+const SEGMENT_LEVEL_IDS = new Set([
+  0x114d9b74, // SeekHead
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  0x1c53bb6b, // Cues
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+]);
+
+/** Matroska TrackType values */
+export const WEBM_TRACK_TYPES = { video: 1, audio: 2, subtitle: 0x11, metadata: 0x21 };
+
+const READ_WINDOW_SIZE = 1024 * 1024;
+
+export interface WebmVideoTrack {
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width: number;
+  height: number;
+  /** From DisplayWidth/DisplayHeight, which set the display aspect ratio whatever their unit */
+  pixelAspectRatio: number;
+  /** Ticks per second for `cts`/`duration` of the samples */
+  timescale: number;
+  /** Seconds, when the Info element has one */
+  duration: number | null;
+  samples: MediaSample[];
+}
+
+export interface WebmTrack {
+  number: number;
+  /** One of WEBM_TRACK_TYPES, or another Matroska TrackType */
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  language?: string;
+  /** Video tracks */
+  width: number;
+  height: number;
+  pixelAspectRatio: number;
+  color?: VideoColorInfo;
+  /** Audio tracks */
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number;
+  /** Laced blocks (audio only in practice) are kept whole, so for those tracks this lists blocks */
+  samples: MediaSample[];
+}
+
+export interface WebmFile {
+  /** Ticks per second for `cts`/`duration` of the samples */
+  timescale: number;
+  /** Seconds, when the Info element has one */
+  duration: number | null;
+  tracks: WebmTrack[];
+}
+
+interface ElementHeader {
+  id: number;
+  dataOffset: number;
+  /** null for elements of unknown size */
+  size: number | null;
+}
+
+interface TrackEntry extends WebmTrack {
+  defaultDuration?: number;
+  displayWidth?: number;
+  displayHeight?: number;
+}
+
+/** Sequential reads through a 1MB window, so walking element headers doesn't load the whole file */
+const createBlobReader = (file: Blob) => {
+  let windowStart = 0;
+  let buffer = new Uint8Array(0);
+
+  const read = async (offset: number, length: number) => {
+    if (offset < windowStart || offset + length > windowStart + buffer.length) {
+      buffer = new Uint8Array(await file.slice(offset, offset + Math.max(length, READ_WINDOW_SIZE)).arrayBuffer());
+      windowStart = offset;
+    }
+    return buffer.subarray(offset - windowStart, offset - windowStart + length);
+  };
+
+  return { read };
+};
+
+/** Read an EBML variable-length integer; IDs keep their marker bits, sizes don't */
+const readVint = (bytes: Uint8Array, position: number, keepMarker: boolean) => {
+  const first = bytes[position];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8 || position + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = value === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[position + i];
+    allOnes &&= bytes[position + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+const readFloat = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return bytes.length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+};
+
+/** Iterate the child elements of an element that has been read into memory */
+const parseChildren = (bytes: Uint8Array, onChild: (id: number, data: Uint8Array) => void) => {
+  let position = 0;
+  while (position < bytes.length) {
+    const id = readVint(bytes, position, true);
+    if (!id) break;
+    const size = readVint(bytes, position + id.length, false);
+    if (!size || size.unknown) break;
+    const dataStart = position + id.length + size.length;
+    onChild(id.value, bytes.subarray(dataStart, dataStart + size.value));
+    position = dataStart + size.value;
+  }
+};
+
+const parseColour = (bytes: Uint8Array) => {
+  // Unspecified (2) until the element says otherwise
+  const color: VideoColorInfo = { primaries: 2, transfer: 2, matrix: 2, fullRange: false };
+  parseChildren(bytes, (id, data) => {
+    if (id === ID.Primaries) color.primaries = readUint(data);
+    else if (id === ID.TransferCharacteristics) color.transfer = readUint(data);
+    else if (id === ID.MatrixCoefficients) color.matrix = readUint(data);
+    else if (id === ID.Range) color.fullRange = readUint(data) === 2;
+  });
+  return color;
+};
+
+const parseTrackEntry = (bytes: Uint8Array) => {
+  const track: TrackEntry = { number: 0, type: 0, codecId: "", width: 0, height: 0, pixelAspectRatio: 1, samples: [] };
+  const decoder = new TextDecoder();
+  parseChildren(bytes, (id, data) => {
+    if (id === ID.TrackNumber) track.number = readUint(data);
+    else if (id === ID.TrackType) track.type = readUint(data);
+    else if (id === ID.CodecID) track.codecId = decoder.decode(data);
+    else if (id === ID.CodecPrivate) track.codecPrivate = data.slice();
+    else if (id === ID.DefaultDuration) track.defaultDuration = readUint(data);
+    else if (id === ID.Language) track.language ??= decoder.decode(data);
+    else if (id === ID.LanguageBCP47) track.language = decoder.decode(data);
+    else if (id === ID.Video) {
+      parseChildren(data, (videoId, videoData) => {
+        if (videoId === ID.PixelWidth) track.width = readUint(videoData);
+        else if (videoId === ID.PixelHeight) track.height = readUint(videoData);
+        else if (videoId === ID.DisplayWidth) track.displayWidth = readUint(videoData);
+        else if (videoId === ID.DisplayHeight) track.displayHeight = readUint(videoData);
+        else if (videoId === ID.Colour) track.color = parseColour(videoData);
+      });
+    } else if (id === ID.Audio) {
+      parseChildren(data, (audioId, audioData) => {
+        if (audioId === ID.SamplingFrequency) track.sampleRate = readFloat(audioData);
+        else if (audioId === ID.Channels) track.channels = readUint(audioData);
+        else if (audioId === ID.BitDepth) track.bitDepth = readUint(audioData);
+      });
+    }
+  });
+  // DisplayWidth/DisplayHeight set the display aspect ratio whatever their unit
+  if (track.displayWidth && track.displayHeight && track.width && track.height) {
+    track.pixelAspectRatio = (track.displayWidth / track.displayHeight) / (track.width / track.height);
+  }
+  return track;
+};
+
+/** Whether the file starts with an EBML header (WebM/Matroska) */
+export const isEbmlFile = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return bytes.length === 4 && readUint(bytes) === ID.EBML;
+};
+
+/**
+ * Walk a WebM/Matroska file and build a sample table for every track.
+ * Only block headers are read; payload offsets point into the file for readSampleBatch.
+ */
+export const demuxWebm = async (file: Blob, signal?: AbortSignal): Promise<WebmFile> => {
+  const reader = createBlobReader(file);
+
+  const readHeader = async (offset: number): Promise<ElementHeader | null> => {
+    const bytes = await reader.read(offset, 12);
+    const id = bytes.length > 0 ? readVint(bytes, 0, true) : null;
+    const size = id ? readVint(bytes, id.length, false) : null;
+    if (!id || !size) return null;
+    return { id: id.value, dataOffset: offset + id.length + size.length, size: size.unknown ? null : size.value };
+  };
+
+  const ebml = await readHeader(0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === null) throw new Error("Not a WebM/Matroska file");
+  const segment = await readHeader(ebml.dataOffset + ebml.size);
+  if (!segment || segment.id !== ID.Segment) throw new Error("No Segment element found");
+  const segmentEnd = segment.size === null ? file.size : Math.min(file.size, segment.dataOffset + segment.size);
+
+  let timecodeScale = 1000000; // nanoseconds per tick
+  let durationTicks: number | null = null;
+  const tracks = new Map<number, TrackEntry>();
+
+  // SimpleBlocks flag keyframes themselves; for Blocks the caller decides from the BlockGroup
+  const addBlock = (header: Uint8Array, dataOffset: number, size: number, clusterTime: number, isSync?: boolean) => {
+    const trackNumber = readVint(header, 0, false);
+    const track = trackNumber && tracks.get(trackNumber.value);
+    if (!track) return;
+    const relativeTime = new DataView(header.buffer, header.byteOffset + trackNumber.length, 2).getInt16(0);
+    const flags = header[trackNumber.length + 2];
+    // Laced blocks hold several frames; video tracks practically never use lacing
+    if ((flags >> 1) & 0x03 && track.type === WEBM_TRACK_TYPES.video) return;
+    const headerLength = trackNumber.length + 3;
+    const samples = track.samples;
+    samples.push({
+      number: samples.length,
+      offset: dataOffset + headerLength,
+      size: size - headerLength,
+      cts: clusterTime + relativeTime,
+      duration: 0,
+      is_sync: isSync ?? (flags & 0x80) !== 0,
+    });
+  };
+
+  let position = segment.dataOffset;
+  while (position < segmentEnd) {
+    if (signal?.aborted) throw new DOMException("Operation cancelled", "AbortError");
+    const element = await readHeader(position);
+    if (!element) break;
+
+    if (element.id === ID.Info && element.size !== null) {
+      parseChildren(await reader.read(element.dataOffset, element.size), (id, data) => {
+        if (id === ID.TimecodeScale) timecodeScale = readUint(data);
+        else if (id === ID.Duration) durationTicks = readFloat(data);
+      });
+    } else if (element.id === ID.Tracks && element.size !== null) {
+      parseChildren(await reader.read(element.dataOffset, element.size), (id, data) => {
+        if (id !== ID.TrackEntry) return;
+        const track = parseTrackEntry(data);
+        if (!tracks.has(track.number)) tracks.set(track.number, track);
+      });
+    } else if (element.id === ID.Cluster) {
+      if (tracks.size === 0) throw new Error("No tracks found");
+      const clusterEnd = element.size === null ? segmentEnd : element.dataOffset + element.size;
+      let clusterTime = 0;
+      let childPosition = element.dataOffset;
+
+      while (childPosition < clusterEnd) {
+        const child = await readHeader(childPosition);
+        if (!child || child.size === null || (element.size === null && SEGMENT_LEVEL_IDS.has(child.id))) break;
+
+        if (child.id === ID.Timecode) {
+          clusterTime = readUint(await reader.read(child.dataOffset, child.size));
+        } else if (child.id === ID.SimpleBlock) {
+          addBlock(await reader.read(child.dataOffset, 12), child.dataOffset, child.size, clusterTime);
+        } else if (child.id === ID.BlockGroup) {
+          // A Block without ReferenceBlock doesn't depend on other frames
+          let block: ElementHeader | null = null;
+          let hasReference = false;
+          const groupEnd = child.dataOffset + child.size;
+          for (let groupPosition = child.dataOffset; groupPosition < groupEnd;) {
+            const groupChild = await readHeader(groupPosition);
+            if (!groupChild || groupChild.size === null) break;
+            if (groupChild.id === ID.Block) block = groupChild;
+            else if (groupChild.id === ID.ReferenceBlock) hasReference = true;
+            groupPosition = groupChild.dataOffset + groupChild.size;
+          }
+          if (block?.size) {
+            addBlock(await reader.read(block.dataOffset, 12), block.dataOffset, block.size, clusterTime, !hasReference);
+          }
+        }
+        childPosition = child.dataOffset + child.size;
+      }
+      position = childPosition;
+      continue;
+    }
+
+    // Elements of unknown size other than Clusters can't be skipped
+    if (element.size === null) break;
+    position = element.dataOffset + element.size;
+  }
+
+  // Blocks are stored in decode order; a frame lasts until the next one is presented
+  for (const track of tracks.values()) {
+    const presentationOrder = [...track.samples].sort((a, b) => a.cts - b.cts);
+    const defaultDuration = track.defaultDuration ? track.defaultDuration / timecodeScale : 0;
+    presentationOrder.forEach((sample, index) => {
+      const next = presentationOrder[index + 1];
+      sample.duration = next ? next.cts - sample.cts : defaultDuration || (presentationOrder[index - 1]?.duration ?? 0);
+    });
+  }
+
+  return {
+    timescale: 1000000000 / timecodeScale,
+    duration: durationTicks !== null ? (durationTicks * timecodeScale) / 1000000000 : null,
+    tracks: [...tracks.values()].map(({ defaultDuration, displayWidth, displayHeight, ...track }) => track),
+  };
+};
+
+/** The first video track of an already demuxed WebM/Matroska file */
+export const getWebmVideoTrack = ({ timescale, duration, tracks }: WebmFile): WebmVideoTrack => {
+  const track = tracks.find((candidate) => candidate.type === WEBM_TRACK_TYPES.video);
+  if (!track) throw new Error("No video track found");
+  return {
+    codecId: track.codecId,
+    codecPrivate: track.codecPrivate,
+    width: track.width,
+    height: track.height,
+    pixelAspectRatio: track.pixelAspectRatio,
+    timescale,
+    duration,
+    samples: track.samples,
+  };
+};
+
+/** Demux a WebM/Matroska file and return its first video track */
+export const demuxWebmVideo = async (file: Blob, signal?: AbortSignal): Promise<WebmVideoTrack> =>
+  getWebmVideoTrack(await demuxWebm(file, signal));
+
+/** Build the VideoDecoderConfig for a demuxed WebM track; null if WebCodecs can't take its codec */
+export const getWebmDecoderConfig = async (file: Blob, track: WebmVideoTrack): Promise<VideoDecoderConfig | null> => {
+  const base = { codedWidth: track.width, codedHeight: track.height };
+
+  switch (track.codecId) {
+    case "V_VP8":
+      return { ...base, codec: "vp8" };
+    case "V_VP9": {
+      // WebM rarely carries a vpcC-style CodecPrivate, so read the profile from the first keyframe
+      const keyframe = track.samples.find((sample) => sample.is_sync);
+      if (!keyframe) return { ...base, codec: vp9CodecString(0) };
+      const [data] = await readSampleBatch(file, [keyframe]);
+      const { profile, bitDepth } = parseVp9KeyframeHeader(data);
+      return { ...base, codec: vp9CodecString(profile, 10, bitDepth) };
+    }
+    case "V_AV1":
+      return track.codecPrivate && track.codecPrivate.length >= 4
+        ? { ...base, codec: av1CodecStringFromConfig(track.codecPrivate), description: track.codecPrivate }
+        : { ...base, codec: "av01.0.08M.08" };
+    case "V_MPEG4/ISO/AVC":
+      return track.codecPrivate
+        ? { ...base, codec: avcCodecStringFromConfig(track.codecPrivate), description: track.codecPrivate }
+        : null;
+    default:
+      return null;
+  }
+};
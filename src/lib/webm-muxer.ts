@@ -0,0 +1,341 @@
+// Minimal Matroska/WebM muxer for WebCodecs encoder output.
+// Frames are buffered in memory and written on finalize with known element sizes,
+// a SeekHead up front and Cues at the end so players can seek.
+
+import {
+  buildAv1CodecConfig,
+  buildOpusHead,
+  concat,
+  copyChunk,
+  toUint8Array,
+  type ChunkMetadataLike,
+  type EncodedChunkLike,
+  type MuxedSample,
+} from "@/lib/muxer-utils";
+
+export interface WebmVideoTrackOptions {
+  /** WebCodecs codec string: "vp8", "vp09.*" or "av01.*" */
+  codec: string;
+  width: number;
+  height: number;
+}
+
+export interface WebmAudioTrackOptions {
+  /** WebCodecs codec string; WebM only carries "opus" here */
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface WebmMuxerOptions {
+  video: WebmVideoTrackOptions;
+  audio?: WebmAudioTrackOptions;
+}
+
+interface WebmTrack {
+  number: number;
+  samples: MuxedSample[];
+  codecPrivate?: Uint8Array;
+  entry: (track: WebmTrack) => Uint8Array;
+}
+
+const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+// TimestampScale of 1ms, expressed in nanoseconds
+const TIMESTAMP_SCALE = 1_000_000;
+// SimpleBlock timestamps are signed 16-bit offsets from the cluster timestamp
+const MAX_CLUSTER_SPAN_MS = 30_000;
+
+const textEncoder = new TextEncoder();
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return new Uint8Array(bytes);
+};
+
+const encodeSize = (size: number) => {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const encodeUint = (value: number, width?: number) => {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xff);
+  }
+  while (bytes.length < (width ?? 1)) bytes.unshift(0);
+  return new Uint8Array(bytes);
+};
+
+const elementHeader = (id: number, size: number) => concat([encodeId(id), encodeSize(size)]);
+
+const element = (id: number, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([elementHeader(id, body.length), body]);
+};
+
+const uintElement = (id: number, value: number, width?: number) => element(id, encodeUint(value, width));
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const stringElement = (id: number, value: string) => element(id, textEncoder.encode(value));
+
+const getCodecId = (codec: string) => {
+  if (codec.startsWith("vp8")) return "V_VP8";
+  if (codec.startsWith("vp09")) return "V_VP9";
+  if (codec.startsWith("av01")) return "V_AV1";
+  throw new Error(`Codec ${codec} cannot be muxed into WebM`);
+};
+
+const createVideoEntry = ({ codec, width, height }: WebmVideoTrackOptions) => (track: WebmTrack) => {
+  const codecId = getCodecId(codec);
+  // AV1 in Matroska requires the av1C record as CodecPrivate
+  const codecPrivate = codecId === "V_AV1" ? track.codecPrivate ?? buildAv1CodecConfig(codec) : track.codecPrivate;
+  return element(
+    EBML_IDS.TrackEntry,
+    uintElement(EBML_IDS.TrackNumber, track.number),
+    uintElement(EBML_IDS.TrackUID, track.number),
+    uintElement(EBML_IDS.TrackType, 1),
+    uintElement(EBML_IDS.FlagLacing, 0),
+    stringElement(EBML_IDS.CodecID, codecId),
+    ...(codecPrivate ? [element(EBML_IDS.CodecPrivate, codecPrivate)] : []),
+    element(
+      EBML_IDS.Video,
+      uintElement(EBML_IDS.PixelWidth, width),
+      uintElement(EBML_IDS.PixelHeight, height)
+    )
+  );
+};
+
+const createAudioEntry = ({ codec, sampleRate, numberOfChannels }: WebmAudioTrackOptions) => (track: WebmTrack) => {
+  if (codec !== "opus") throw new Error(`Codec ${codec} cannot be muxed into WebM`);
+  return element(
+    EBML_IDS.TrackEntry,
+    uintElement(EBML_IDS.TrackNumber, track.number),
+    uintElement(EBML_IDS.TrackUID, track.number),
+    uintElement(EBML_IDS.TrackType, 2),
+    uintElement(EBML_IDS.FlagLacing, 0),
+    stringElement(EBML_IDS.CodecID, "A_OPUS"),
+    element(EBML_IDS.CodecPrivate, track.codecPrivate ?? buildOpusHead(numberOfChannels, sampleRate)),
+    uintElement(EBML_IDS.SeekPreRoll, 80_000_000), // 80ms, as recommended for Opus
+    element(
+      EBML_IDS.Audio,
+      floatElement(EBML_IDS.SamplingFrequency, sampleRate),
+      uintElement(EBML_IDS.Channels, numberOfChannels)
+    )
+  );
+};
+
+interface ClusterBlock {
+  track: WebmTrack;
+  sample: MuxedSample;
+  timestampMs: number;
+}
+
+// Group blocks into clusters, starting a new one at every video keyframe
+const buildClusters = (blocks: ClusterBlock[], videoTrack: WebmTrack) => {
+  const clusters: { timestampMs: number; blocks: ClusterBlock[]; hasKeyframe: boolean }[] = [];
+  for (const block of blocks) {
+    const current = clusters[clusters.length - 1];
+    const isVideoKey = block.track === videoTrack && block.sample.isSync;
+    if (!current || isVideoKey || block.timestampMs - current.timestampMs > MAX_CLUSTER_SPAN_MS) {
+      clusters.push({ timestampMs: block.timestampMs, blocks: [block], hasKeyframe: isVideoKey });
+    } else {
+      current.blocks.push(block);
+    }
+  }
+  return clusters;
+};
+
+const simpleBlockHeader = (block: ClusterBlock, clusterTimestampMs: number) => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x80 | block.track.number; // track number as a 1-byte vint
+  view.setInt16(1, block.timestampMs - clusterTimestampMs);
+  header[3] = block.sample.isSync ? 0x80 : 0x00;
+  return concat([elementHeader(EBML_IDS.SimpleBlock, header.length + block.sample.data.byteLength), header]);
+};
+
+export const createWebmMuxer = (options: WebmMuxerOptions) => {
+  const videoTrack: WebmTrack = {
+    number: 1,
+    samples: [],
+    entry: createVideoEntry(options.video),
+  };
+  const audioTrack: WebmTrack | null = options.audio
+    ? { number: 2, samples: [], entry: createAudioEntry(options.audio) }
+    : null;
+  const tracks = audioTrack ? [videoTrack, audioTrack] : [videoTrack];
+  let finalized = false;
+
+  const addSample = (track: WebmTrack, chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => {
+    if (finalized) throw new Error("Muxer already finalized");
+
+    const description = meta?.decoderConfig?.description;
+    if (description && !track.codecPrivate) {
+      track.codecPrivate = toUint8Array(description);
+    }
+    track.samples.push(copyChunk(chunk));
+  };
+
+  const addVideoChunk = (chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => addSample(videoTrack, chunk, meta);
+
+  const addAudioChunk = (chunk: EncodedChunkLike, meta?: ChunkMetadataLike) => {
+    if (!audioTrack) throw new Error("Muxer was created without an audio track");
+    addSample(audioTrack, chunk, meta);
+  };
+
+  const finalize = (): Blob => {
+    if (videoTrack.samples.length === 0) throw new Error("No video samples to mux");
+    finalized = true;
+
+    const blocks: ClusterBlock[] = tracks
+      .flatMap((track) =>
+        track.samples.map((sample) => ({ track, sample, timestampMs: Math.round(sample.timestamp / 1000) }))
+      )
+      .sort((a, b) => a.timestampMs - b.timestampMs);
+
+    const lastBlock = blocks[blocks.length - 1];
+    const durationMs = lastBlock.timestampMs + Math.round((lastBlock.sample.duration ?? 0) / 1000);
+
+    const ebmlHeader = element(
+      EBML_IDS.EBML,
+      uintElement(EBML_IDS.EBMLVersion, 1),
+      uintElement(EBML_IDS.EBMLReadVersion, 1),
+      uintElement(EBML_IDS.EBMLMaxIDLength, 4),
+      uintElement(EBML_IDS.EBMLMaxSizeLength, 8),
+      stringElement(EBML_IDS.DocType, "webm"),
+      uintElement(EBML_IDS.DocTypeVersion, 4),
+      uintElement(EBML_IDS.DocTypeReadVersion, 2)
+    );
+
+    const info = element(
+      EBML_IDS.Info,
+      uintElement(EBML_IDS.TimestampScale, TIMESTAMP_SCALE),
+      stringElement(EBML_IDS.MuxingApp, "frame-extractor-pro"),
+      stringElement(EBML_IDS.WritingApp, "frame-extractor-pro"),
+      floatElement(EBML_IDS.Duration, durationMs)
+    );
+
+    const tracksElement = element(EBML_IDS.Tracks, ...tracks.filter((track) => track.samples.length > 0).map((track) => track.entry(track)));
+
+    // SeekPosition uses a fixed 8-byte width so the SeekHead size is known before the positions are
+    const buildSeekHead = (infoPosition: number, cuesPosition: number) =>
+      element(
+        EBML_IDS.SeekHead,
+        ...[
+          [EBML_IDS.Info, infoPosition],
+          [EBML_IDS.Tracks, infoPosition + info.length],
+          [EBML_IDS.Cues, cuesPosition],
+        ].map(([id, position]) =>
+          element(
+            EBML_IDS.Seek,
+            element(EBML_IDS.SeekID, encodeId(id)),
+            uintElement(EBML_IDS.SeekPosition, position, 8)
+          )
+        )
+      );
+
+    const seekHeadSize = buildSeekHead(0, 0).length;
+    // Positions below are relative to the start of the Segment payload
+    let position = seekHeadSize + info.length + tracksElement.length;
+
+    const clusterParts: Uint8Array[] = [];
+    const cuePoints: Uint8Array[] = [];
+
+    for (const cluster of buildClusters(blocks, videoTrack)) {
+      const timestamp = uintElement(EBML_IDS.Timestamp, cluster.timestampMs);
+      const blockParts = cluster.blocks.flatMap((block) => [simpleBlockHeader(block, cluster.timestampMs), block.sample.data]);
+      const payloadSize = blockParts.reduce((acc, part) => acc + part.byteLength, timestamp.length);
+      const header = elementHeader(EBML_IDS.Cluster, payloadSize);
+
+      if (cluster.hasKeyframe) {
+        cuePoints.push(
+          element(
+            EBML_IDS.CuePoint,
+            uintElement(EBML_IDS.CueTime, cluster.timestampMs),
+            element(
+              EBML_IDS.CueTrackPositions,
+              uintElement(EBML_IDS.CueTrack, videoTrack.number),
+              uintElement(EBML_IDS.CueClusterPosition, position)
+            )
+          )
+        );
+      }
+
+      clusterParts.push(header, timestamp);
+      for (const part of blockParts) clusterParts.push(part);
+      position += header.length + payloadSize;
+    }
+
+    const cues = element(EBML_IDS.Cues, concat(cuePoints));
+    const seekHead = buildSeekHead(seekHeadSize, position);
+    const segmentHeader = elementHeader(EBML_IDS.Segment, position + cues.length);
+
+    return new Blob([ebmlHeader, segmentHeader, seekHead, info, tracksElement, ...clusterParts, cues], {
+      type: "video/webm",
+    });
+  };
+
+  return { addVideoChunk, addAudioChunk, finalize };
+};
+
+export type WebmMuxer = ReturnType<typeof createWebmMuxer>;
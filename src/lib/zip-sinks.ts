@@ -0,0 +1,104 @@
+import type { ZipSink } from "@/lib/zip-writer";
+
+// Chunks posted to the download service worker that haven't been consumed yet
+const MAX_CHUNKS_IN_FLIGHT = 16;
+
+/** Write straight into a file picked with the File System Access API */
+export const createFileHandleSink = async (handle: FileSystemFileHandle): Promise<ZipSink> => {
+  const writable = await handle.createWritable({ keepExistingData: false });
+  return {
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: async (reason) => {
+      try {
+        await writable.abort(reason);
+      } catch {
+        // ignore abort errors
+      }
+    },
+  };
+};
+
+/**
+ * Stream the archive to a regular browser download through public/download-sw.js.
+ * Resolves to null when service workers aren't available (e.g. in private windows or insecure contexts).
+ */
+export const createServiceWorkerDownloadSink = async (fileName: string): Promise<ZipSink | null> => {
+  if (!("serviceWorker" in navigator)) return null;
+
+  let worker: ServiceWorker | null = null;
+  try {
+    const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}download-sw.js`);
+    await navigator.serviceWorker.ready;
+    worker = registration.active;
+  } catch (e) {
+    console.warn("Download service worker unavailable:", e);
+    return null;
+  }
+  if (!worker) return null;
+
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  let inFlight = 0;
+  let cancelled = false;
+  let onAck: (() => void) | null = null;
+
+  const url = await new Promise<string>((resolve) => {
+    port.onmessage = ({ data }) => {
+      if (data.type === "ready") {
+        resolve(data.url);
+      } else if (data.type === "ack") {
+        inFlight--;
+        onAck?.();
+      } else if (data.type === "cancelled") {
+        cancelled = true;
+        onAck?.();
+      }
+    };
+    worker!.postMessage(
+      { type: "register-download", id: crypto.randomUUID(), fileName },
+      [channel.port2]
+    );
+  });
+
+  // Navigating a hidden iframe to the URL starts the download without leaving the page
+  const iframe = document.createElement("iframe");
+  iframe.hidden = true;
+  iframe.src = url;
+  document.body.appendChild(iframe);
+  const removeIframe = () => setTimeout(() => iframe.remove(), 1000);
+
+  return {
+    write: async (chunk) => {
+      while (inFlight >= MAX_CHUNKS_IN_FLIGHT && !cancelled) {
+        await new Promise<void>((resolve) => {
+          onAck = resolve;
+        });
+      }
+      if (cancelled) throw new DOMException("Download cancelled", "AbortError");
+      inFlight++;
+      // Copy so the chunk's buffer can be transferred even if it's a view into a larger one
+      const copy = chunk.slice();
+      port.postMessage({ type: "chunk", chunk: copy }, [copy.buffer]);
+    },
+    close: () => {
+      port.postMessage({ type: "close" });
+      removeIframe();
+    },
+    abort: () => {
+      port.postMessage({ type: "abort" });
+      removeIframe();
+    },
+  };
+};
+
+/** Last resort: collect the archive in memory and hand it over as a Blob when closed */
+export const createMemorySink = (onComplete: (blob: Blob) => void): ZipSink => {
+  const chunks: Uint8Array[] = [];
+  return {
+    write: (chunk) => {
+      chunks.push(chunk);
+    },
+    close: () => onComplete(new Blob(chunks, { type: "application/zip" })),
+  };
+};
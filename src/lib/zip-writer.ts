@@ -0,0 +1,217 @@
+// Streaming ZIP writer: entries are stored (images are already compressed) and written to the sink
+// as soon as they're added, so the archive never has to fit in memory. Switches to ZIP64 records
+// once sizes, offsets or the entry count outgrow the classic format.
+
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void> | void;
+  close: () => Promise<void> | void;
+  abort?: (reason?: unknown) => Promise<void> | void;
+}
+
+export interface ZipWriterOptions {
+  /** Always write ZIP64 records, even for small archives */
+  forceZip64?: boolean;
+}
+
+interface CentralDirectoryEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+// General purpose flag bit 11: names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const createRecord = (size: number) => {
+  const bytes = new Uint8Array(size);
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setBigUint64(offset, BigInt(value), true);
+};
+
+export const createZipWriter = (sink: ZipSink, options: ZipWriterOptions = {}) => {
+  const entries: CentralDirectoryEntry[] = [];
+  const encoder = new TextEncoder();
+  let position = 0;
+  // addFile calls are serialized so entries never interleave in the output
+  let queue = Promise.resolve();
+  let closed = false;
+
+  const write = async (chunk: Uint8Array) => {
+    await sink.write(chunk);
+    position += chunk.length;
+  };
+
+  const writeEntry = async (fileName: string, data: Uint8Array, lastModified: Date) => {
+    const name = encoder.encode(fileName);
+    const { time, date } = toDosDateTime(lastModified);
+    const crc = crc32(data);
+    const offset = position;
+    const zip64 = options.forceZip64 || data.length >= MAX_UINT32;
+
+    const { bytes, view } = createRecord(30 + name.length + (zip64 ? 20 : 0));
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, zip64 ? MAX_UINT32 : data.length, true);
+    view.setUint32(22, zip64 ? MAX_UINT32 : data.length, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, zip64 ? 20 : 0, true);
+    bytes.set(name, 30);
+    if (zip64) {
+      const extra = 30 + name.length;
+      view.setUint16(extra, 0x0001, true);
+      view.setUint16(extra + 2, 16, true);
+      setUint64(view, extra + 4, data.length);
+      setUint64(view, extra + 12, data.length);
+    }
+
+    await write(bytes);
+    await write(data);
+    entries.push({ name, crc, size: data.length, offset, time, date });
+  };
+
+  const buildCentralDirectoryEntry = (entry: CentralDirectoryEntry) => {
+    const sizeOverflows = options.forceZip64 || entry.size >= MAX_UINT32;
+    const offsetOverflows = options.forceZip64 || entry.offset >= MAX_UINT32;
+    // ZIP64 extra field carries only the values that overflow, in this fixed order
+    const zip64Values = [
+      ...(sizeOverflows ? [entry.size, entry.size] : []),
+      ...(offsetOverflows ? [entry.offset] : []),
+    ];
+    const extraLength = zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0;
+
+    const { bytes, view } = createRecord(46 + entry.name.length + extraLength);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, VERSION_ZIP64, true);
+    view.setUint16(6, extraLength > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(8, FLAG_UTF8, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, sizeOverflows ? MAX_UINT32 : entry.size, true);
+    view.setUint32(24, sizeOverflows ? MAX_UINT32 : entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extraLength, true);
+    view.setUint32(42, offsetOverflows ? MAX_UINT32 : entry.offset, true);
+    bytes.set(entry.name, 46);
+    if (extraLength > 0) {
+      const extra = 46 + entry.name.length;
+      view.setUint16(extra, 0x0001, true);
+      view.setUint16(extra + 2, zip64Values.length * 8, true);
+      zip64Values.forEach((value, index) => setUint64(view, extra + 4 + index * 8, value));
+    }
+    return bytes;
+  };
+
+  const writeEndOfCentralDirectory = async (directoryOffset: number, directorySize: number) => {
+    const zip64 = options.forceZip64 ||
+      entries.length >= MAX_UINT16 ||
+      directoryOffset >= MAX_UINT32 ||
+      directorySize >= MAX_UINT32;
+
+    if (zip64) {
+      const zip64EndOffset = position;
+      const end = createRecord(56);
+      end.view.setUint32(0, 0x06064b50, true);
+      setUint64(end.view, 4, 44); // size of the remaining record
+      end.view.setUint16(12, VERSION_ZIP64, true);
+      end.view.setUint16(14, VERSION_ZIP64, true);
+      setUint64(end.view, 24, entries.length);
+      setUint64(end.view, 32, entries.length);
+      setUint64(end.view, 40, directorySize);
+      setUint64(end.view, 48, directoryOffset);
+      await write(end.bytes);
+
+      const locator = createRecord(20);
+      locator.view.setUint32(0, 0x07064b50, true);
+      setUint64(locator.view, 8, zip64EndOffset);
+      locator.view.setUint32(16, 1, true); // total number of disks
+      await write(locator.bytes);
+    }
+
+    const { bytes, view } = createRecord(22);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, zip64 ? MAX_UINT16 : entries.length, true);
+    view.setUint16(10, zip64 ? MAX_UINT16 : entries.length, true);
+    view.setUint32(12, zip64 ? MAX_UINT32 : directorySize, true);
+    view.setUint32(16, zip64 ? MAX_UINT32 : directoryOffset, true);
+    await write(bytes);
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    const result = queue.then(task);
+    // Keep the queue usable after a failure; the caller still sees the rejection
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const addFile = (fileName: string, data: Blob | Uint8Array, lastModified = new Date()) => {
+    if (closed) return Promise.reject(new Error("ZIP writer is closed"));
+    return enqueue(async () => {
+      const bytes = data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+      await writeEntry(fileName, bytes, lastModified);
+    });
+  };
+
+  const close = () => {
+    if (closed) return Promise.reject(new Error("ZIP writer is closed"));
+    closed = true;
+    return enqueue(async () => {
+      const directoryOffset = position;
+      for (const entry of entries) {
+        await write(buildCentralDirectoryEntry(entry));
+      }
+      await writeEndOfCentralDirectory(directoryOffset, position - directoryOffset);
+      await sink.close();
+    });
+  };
+
+  const abort = async (reason?: unknown) => {
+    closed = true;
+    await sink.abort?.(reason);
+  };
+
+  return { addFile, close, abort };
+};
+
+export type ZipWriter = ReturnType<typeof createZipWriter>;
@@ -0,0 +1,7 @@
+import MediaInspector from "@/components/MediaInspector";
+
+const Inspect = () => {
+  return <MediaInspector />;
+};
+
+export default Inspect;
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { createLinearResampler } from "@/lib/audio-transcoder";
+
+describe("createLinearResampler", () => {
+  it("produces the expected number of samples across blocks", () => {
+    const resampler = createLinearResampler(44100, 48000, 1);
+    let total = 0;
+    for (let block = 0; block < 100; block++) {
+      total += resampler.process([new Float32Array(441)])[0].length;
+    }
+    expect(Math.abs(total - 48000)).toBeLessThanOrEqual(2);
+  });
+
+  it("keeps a ramp continuous over block boundaries", () => {
+    const resampler = createLinearResampler(48000, 32000, 1);
+    const input = Float32Array.from({ length: 960 }, (_, i) => i);
+    const output = [
+      ...resampler.process([input.slice(0, 301)])[0],
+      ...resampler.process([input.slice(301)])[0],
+    ];
+    output.forEach((value, index) => expect(value).toBeCloseTo(index * 1.5, 4));
+  });
+
+  it("passes audio through when the rates match", () => {
+    const resampler = createLinearResampler(48000, 48000, 2);
+    const planes = [new Float32Array([1, 2]), new Float32Array([3, 4])];
+    expect(resampler.process(planes)).toBe(planes);
+  });
+});
@@ -0,0 +1,57 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import { createMp4Muxer } from "@/lib/mp4-muxer";
+import { probeMp4 } from "@/lib/mp4-demux";
+import { getBoxTree, sliceBox, type BoxNode } from "@/lib/box-tree";
+
+const fakeChunk = (timestamp: number, key: boolean) => {
+  const data = new Uint8Array(64).fill(key ? 1 : 2);
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration: 33_333,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      (destination as Uint8Array).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const findBox = (boxes: BoxNode[], path: string[]): BoxNode | undefined => {
+  const box = boxes.find((candidate) => candidate.type === path[0]);
+  return path.length === 1 ? box : box && findBox(box.children, path.slice(1));
+};
+
+describe("getBoxTree", () => {
+  it("lists every parsed box with its offsets and fields", async () => {
+    const muxer = createMp4Muxer({ video: { codec: "vp09.00.10.08", width: 320, height: 240 } });
+    for (let i = 0; i < 200; i++) muxer.addVideoChunk(fakeChunk(i * 33_333, i % 30 === 0));
+    // jsdom's Blob has no arrayBuffer(), which the probe reads through
+    const file = new NodeBlob([await readBlob(muxer.finalize())]) as unknown as Blob;
+
+    const { mp4boxFile } = await probeMp4(file);
+    const boxes = getBoxTree(mp4boxFile);
+    expect(boxes.map((box) => box.type)).toEqual(["ftyp", "moov", "mdat"]);
+    expect(boxes[1].start).toBe(boxes[0].size);
+
+    const entry = findBox(boxes, ["moov", "trak", "mdia", "minf", "stbl", "stsd", "vp09"]);
+    expect(entry?.children.map((box) => box.type)).toContain("vpcC");
+    expect(entry?.fields).toContainEqual({ name: "width", value: "320" });
+
+    // Long tables are cut short rather than dumped whole
+    const stsz = findBox(boxes, ["moov", "trak", "mdia", "minf", "stbl", "stsz"]);
+    expect(stsz?.fields.find((field) => field.name === "sample_sizes")?.value).toMatch(/… 200 total\]$/);
+
+    const bytes = new Uint8Array(await sliceBox(file, boxes[1]).arrayBuffer());
+    expect(bytes.length).toBe(boxes[1].size);
+    expect(new TextDecoder().decode(bytes.subarray(4, 8))).toBe("moov");
+  });
+});
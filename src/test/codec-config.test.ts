@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { decodeAv1Config, decodeAvcConfig, decodeDecoderConfig, decodeHevcConfig, type ConfigSection } from "@/lib/codec-config";
+import { buildAv1CodecConfig } from "@/lib/muxer-utils";
+
+// Writes fixed-width and Exp-Golomb fields, then adds the stop bit and emulation prevention bytes
+const createBitWriter = () => {
+  const bits: number[] = [];
+  const writer = {
+    u: (count: number, value: number) => {
+      for (let i = count - 1; i >= 0; i--) bits.push(Math.floor(value / 2 ** i) % 2);
+      return writer;
+    },
+    ue: (value: number) => {
+      const length = (value + 1).toString(2).length;
+      return writer.u(length - 1, 0).u(length, value + 1);
+    },
+    se: (value: number) => writer.ue(value > 0 ? value * 2 - 1 : -value * 2),
+    rbsp: (header: number[]) => {
+      bits.push(1);
+      while (bits.length % 8) bits.push(0);
+      const bytes = [...header];
+      let zeros = 0;
+      for (let i = 0; i < bits.length; i += 8) {
+        const byte = parseInt(bits.slice(i, i + 8).join(""), 2);
+        if (zeros >= 2 && byte <= 3) {
+          bytes.push(3);
+          zeros = 0;
+        }
+        zeros = byte === 0 ? zeros + 1 : 0;
+        bytes.push(byte);
+      }
+      return bytes;
+    },
+  };
+  return writer;
+};
+
+const lengthPrefixed = (nal: number[]) => [nal.length >> 8, nal.length & 0xff, ...nal];
+
+const fieldsOf = (section: ConfigSection) => Object.fromEntries(section.fields.map((field) => [field.name, field.value]));
+
+// High profile 4.0, 1920x1088 coded and cropped to 1080 lines
+const HIGH_1080P_SPS = createBitWriter()
+  .u(8, 100).u(8, 0).u(8, 40).ue(0)
+  .ue(1).ue(0).ue(0).u(1, 0).u(1, 0)
+  .ue(0).ue(0).ue(2).ue(4).u(1, 0)
+  .ue(119).ue(67).u(1, 1).u(1, 1)
+  .u(1, 1).ue(0).ue(0).ue(0).ue(4)
+  .u(1, 0)
+  .rbsp([0x67]);
+
+const CABAC_PPS = createBitWriter()
+  .ue(0).ue(0).u(1, 1).u(1, 0).ue(0)
+  .ue(2).ue(0).u(1, 1).u(2, 2).se(-3).se(0).se(-2)
+  .u(1, 1).u(1, 0).u(1, 0)
+  .rbsp([0x68]);
+
+describe("decodeAvcConfig", () => {
+  const avcC = new Uint8Array([
+    0x01, 100, 0x00, 40, 0xff, 0xe1, ...lengthPrefixed(HIGH_1080P_SPS), 0x01, ...lengthPrefixed(CABAC_PPS),
+  ]);
+
+  it("reads the record and each parameter set", () => {
+    const [record, sps, pps] = decodeAvcConfig(avcC);
+    expect(fieldsOf(record)).toMatchObject({
+      AVCProfileIndication: 100,
+      AVCLevelIndication: 40,
+      lengthSizeMinusOne: 3,
+      numOfSequenceParameterSets: 1,
+      numOfPictureParameterSets: 1,
+    });
+
+    expect(sps.title).toBe(`SPS #1 (${HIGH_1080P_SPS.length} bytes)`);
+    expect(fieldsOf(sps)).toMatchObject({
+      profile_idc: 100,
+      level_idc: 40,
+      chroma_format_idc: "1 (4:2:0)",
+      bit_depth_luma: 8,
+      log2_max_pic_order_cnt_lsb: 6,
+      max_num_ref_frames: 4,
+      pic_width_in_mbs: 120,
+      pic_height_in_map_units: 68,
+      frame_crop_offsets: "0 0 0 4",
+      "→ size": "1920×1080",
+    });
+    expect(fieldsOf(sps).error).toBeUndefined();
+
+    expect(pps.title).toBe(`PPS #1 (${CABAC_PPS.length} bytes)`);
+    expect(fieldsOf(pps)).toMatchObject({
+      entropy_coding_mode_flag: "1 (CABAC)",
+      num_ref_idx_l0_default_active: 3,
+      weighted_bipred_idc: 2,
+      pic_init_qp: 23,
+      chroma_qp_index_offset: -2,
+      redundant_pic_cnt_present_flag: 0,
+    });
+  });
+
+  it("reports where a truncated parameter set stops", () => {
+    const truncated = new Uint8Array([0x01, 0x42, 0xc0, 0x1e, 0xff, 0xe1, 0x00, 0x04, 0x67, 0x42, 0xc0, 0x1e, 0x00]);
+    const [record, sps] = decodeAvcConfig(truncated);
+    expect(fieldsOf(record)).toMatchObject({ numOfSequenceParameterSets: 1, numOfPictureParameterSets: 0 });
+    expect(fieldsOf(sps)).toMatchObject({ profile_idc: 66, level_idc: 30, error: "Truncated NAL unit" });
+  });
+});
+
+describe("decodeHevcConfig", () => {
+  // Main 10, level 5.1, 3840x2160
+  const sps = createBitWriter()
+    .u(4, 0).u(3, 0).u(1, 1)
+    .u(8, 0x02).u(32, 0x20000000).u(48, 0).u(8, 153)
+    .ue(0).ue(1).ue(3840).ue(2160).u(1, 0).ue(2).ue(2).ue(4)
+    .rbsp([0x42, 0x01]);
+  const vps = [0x40, 0x01, 0x0c, 0x01];
+  const hvcC = new Uint8Array([
+    0x01, 0x02, 0x20, 0x00, 0x00, 0x00, 0x90, 0x00, 0x00, 0x00, 0x00, 0x00, 153,
+    0xf0, 0x00, 0xfc, 0xfd, 0xfa, 0xfa, 0x00, 0x00, 0x0f, 0x02,
+    0xa0, 0x00, 0x01, ...lengthPrefixed(vps),
+    0xa1, 0x00, 0x01, ...lengthPrefixed(sps),
+  ]);
+
+  it("reads the record, lists the arrays and decodes the SPS", () => {
+    const [record, vpsSection, spsSection] = decodeHevcConfig(hvcC);
+    expect(fieldsOf(record)).toMatchObject({
+      general_profile_idc: 2,
+      general_tier_flag: "0 (Main)",
+      general_level_idc: "153 (5.1)",
+      chromaFormat: "1 (4:2:0)",
+      bitDepthLuma: 10,
+      lengthSizeMinusOne: 3,
+      numOfArrays: 2,
+    });
+    expect(vpsSection.title).toBe("VPS #1 (4 bytes)");
+    expect(fieldsOf(vpsSection)).toMatchObject({ array_completeness: 1, bytes: "40 01 0c 01" });
+    expect(fieldsOf(spsSection)).toMatchObject({
+      chroma_format_idc: "1 (4:2:0)",
+      pic_width_in_luma_samples: 3840,
+      pic_height_in_luma_samples: 2160,
+      bit_depth_luma: 10,
+      bit_depth_chroma: 10,
+      log2_max_pic_order_cnt_lsb: 8,
+    });
+    expect(fieldsOf(spsSection).error).toBeUndefined();
+  });
+});
+
+describe("decodeAv1Config", () => {
+  it("reads the sequence header summary", () => {
+    const [record] = decodeAv1Config(buildAv1CodecConfig("av01.0.12H.10"));
+    expect(fieldsOf(record)).toMatchObject({
+      marker: 1,
+      seq_profile: 0,
+      seq_level_idx_0: 12,
+      seq_tier_0: 1,
+      high_bitdepth: 1,
+      twelve_bit: 0,
+    });
+  });
+
+  it("only decodes the records it knows", () => {
+    expect(decodeDecoderConfig("av01.0.08M.08", buildAv1CodecConfig("av01.0.08M.08"))[0].title).toBe("av1C");
+    expect(decodeDecoderConfig("vp09.00.10.08", new Uint8Array(8))).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { applyCropAspect, clampCrop, cropFromDrag, fromPixelCrop, getSourceCropRect, toPixelCrop } from "@/lib/crop";
+
+describe("clampCrop", () => {
+  it("moves a rectangle back inside the frame without resizing it", () => {
+    expect(clampCrop({ x: 0.8, y: -0.1, width: 0.5, height: 0.5 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+
+  it("shrinks a rectangle larger than the frame", () => {
+    expect(clampCrop({ x: -1, y: 0, width: 3, height: 0 })).toEqual({ x: 0, y: 0, width: 1, height: 0.01 });
+  });
+});
+
+describe("applyCropAspect", () => {
+  it("fits the ratio in pixels to the whole frame when there is no crop", () => {
+    // 1:1 on 1920x1080 is 1080x1080, centered
+    const crop = applyCropAspect(null, 1, 1920, 1080);
+    expect(toPixelCrop(crop, 1920, 1080)).toEqual({ x: 420, y: 0, width: 1080, height: 1080 });
+  });
+
+  it("keeps the crop centered", () => {
+    const crop = applyCropAspect({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, 16 / 9, 1000, 1000);
+    expect(crop.x + crop.width / 2).toBeCloseTo(0.5);
+    expect(crop.y + crop.height / 2).toBeCloseTo(0.5);
+    expect((crop.width * 1000) / (crop.height * 1000)).toBeCloseTo(16 / 9);
+  });
+});
+
+describe("cropFromDrag", () => {
+  it("spans the two points in either direction", () => {
+    expect(cropFromDrag({ x: 0.6, y: 0.7 }, { x: 0.2, y: 0.3 }, 100, 100)).toEqual({
+      x: expect.closeTo(0.2),
+      y: expect.closeTo(0.3),
+      width: expect.closeTo(0.4),
+      height: expect.closeTo(0.4),
+    });
+  });
+
+  it("derives the height from the width with a ratio and stops at the frame edge", () => {
+    const crop = cropFromDrag({ x: 0, y: 0.5 }, { x: 1, y: 0.6 }, 100, 100, 1);
+    expect(crop).toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5 });
+  });
+});
+
+describe("pixel crops", () => {
+  it("round-trips through whole pixels", () => {
+    const pixels = { x: 100, y: 50, width: 640, height: 360 };
+    expect(toPixelCrop(fromPixelCrop(pixels, 1920, 1080), 1920, 1080)).toEqual(pixels);
+  });
+});
+
+describe("getSourceCropRect", () => {
+  // Top-left quarter-wide, half-high region of the upright frame
+  const crop = { x: 0, y: 0, width: 0.25, height: 0.5 };
+
+  it("scales to the source as is without rotation", () => {
+    expect(getSourceCropRect(crop, 0, 1920, 1080)).toEqual({ x: 0, y: 0, width: 480, height: 540 });
+  });
+
+  it.each([
+    // Upright 1080x1920; the coded 1920x1080 frame is turned clockwise to show it
+    { rotation: 90 as const, rect: { x: 0, y: 810, width: 960, height: 270 } },
+    { rotation: 180 as const, rect: { x: 1440, y: 540, width: 480, height: 540 } },
+    { rotation: 270 as const, rect: { x: 960, y: 0, width: 960, height: 270 } },
+  ])("maps the upright region back into a $rotation degree source", ({ rotation, rect }) => {
+    expect(getSourceCropRect(crop, rotation, 1920, 1080)).toEqual(rect);
+  });
+});
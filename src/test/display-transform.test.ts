@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { drawWithDisplayTransform, getDisplaySize, rotationFromMatrix } from "@/lib/display-transform";
+
+const ONE = 0x10000;
+const W = 0x40000000;
+
+describe("rotationFromMatrix", () => {
+  it.each([
+    { matrix: [ONE, 0, 0, 0, ONE, 0, 0, 0, W], rotation: 0 },
+    { matrix: [0, ONE, 0, -ONE, 0, 0, 0, 0, W], rotation: 90 },
+    { matrix: [-ONE, 0, 0, 0, -ONE, 0, 0, 0, W], rotation: 180 },
+    { matrix: [0, -ONE, 0, ONE, 0, 0, 0, 0, W], rotation: 270 },
+  ])("reads $rotation degrees", ({ matrix, rotation }) => {
+    expect(rotationFromMatrix(matrix)).toBe(rotation);
+  });
+});
+
+describe("getDisplaySize", () => {
+  it("swaps sides for quarter turns", () => {
+    expect(getDisplaySize(1920, 1080, { rotation: 90, pixelAspectRatio: 1 })).toEqual({ width: 1080, height: 1920 });
+    expect(getDisplaySize(1920, 1080, { rotation: 180, pixelAspectRatio: 1 })).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it("stretches non-square pixels before rotating", () => {
+    // Anamorphic DV: 720x480 coded with 40:33 pixels shows as 16:9
+    expect(getDisplaySize(720, 480, { rotation: 0, pixelAspectRatio: 40 / 33 })).toEqual({ width: 873, height: 480 });
+    expect(getDisplaySize(720, 480, { rotation: 270, pixelAspectRatio: 40 / 33 })).toEqual({ width: 480, height: 873 });
+  });
+});
+
+describe("drawWithDisplayTransform", () => {
+  const recordingContext = () => {
+    const calls: unknown[][] = [];
+    const record = (name: string) => (...args: unknown[]) => calls.push([name, ...args]);
+    const ctx = {
+      save: record("save"),
+      restore: record("restore"),
+      translate: record("translate"),
+      rotate: record("rotate"),
+      drawImage: record("drawImage"),
+    } as unknown as CanvasRenderingContext2D;
+    return { ctx, calls };
+  };
+
+  it("draws the frame sideways around the center for a quarter turn", () => {
+    const { ctx, calls } = recordingContext();
+    const source = {} as CanvasImageSource;
+    drawWithDisplayTransform(ctx, source, 1080, 1920, { rotation: 90, pixelAspectRatio: 1 });
+    expect(calls).toEqual([
+      ["save"],
+      ["translate", 540, 960],
+      ["rotate", Math.PI / 2],
+      ["drawImage", source, -960, -540, 1920, 1080],
+      ["restore"],
+    ]);
+  });
+
+  it("only scales when there is no rotation", () => {
+    const { ctx, calls } = recordingContext();
+    const source = {} as CanvasImageSource;
+    drawWithDisplayTransform(ctx, source, 873, 480, { rotation: 0, pixelAspectRatio: 40 / 33 });
+    expect(calls).toEqual([["drawImage", source, 0, 0, 873, 480]]);
+  });
+
+  it("draws only the source rect when one is given", () => {
+    const { ctx, calls } = recordingContext();
+    const source = {} as CanvasImageSource;
+    drawWithDisplayTransform(ctx, source, 200, 100, { rotation: 0, pixelAspectRatio: 1 }, { x: 10, y: 20, width: 400, height: 200 });
+    expect(calls).toEqual([["drawImage", source, 10, 20, 400, 200, 0, 0, 200, 100]]);
+  });
+});
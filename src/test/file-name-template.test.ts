@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { ExtractedFrame, ExtractionMode, ExtractionSettings } from "@/lib/frame-extraction";
+import { renderFileName, safeFileNamePart, validateFileNameTemplate } from "@/lib/file-name-template";
+
+const frame: ExtractedFrame = { blob: new Blob(), timestamp: 83.25, width: 1280, height: 720 };
+
+const render = (template: string, mode: ExtractionMode = "fps", overrides: Partial<ExtractedFrame> = {}) =>
+  renderFileName(template, {
+    video: "clip: take 2.mp4",
+    index: 6,
+    frame: { ...frame, ...overrides },
+    settings: { mode, format: "png" } as ExtractionSettings,
+  });
+
+describe("renderFileName", () => {
+  it("fills in tokens and padding", () => {
+    expect(render("{video}_{index:05}_{pts_ms}_{w}x{h}")).toBe("clip_ take 2_00007_83250_1280x720.png");
+    expect(render("{timecode}")).toBe("00-01-23.250.png");
+    expect(render("shot{scene:03}", "scenes")).toBe("shot007.png");
+  });
+
+  it("falls back to the mode's default naming", () => {
+    expect(render("")).toBe("frame_00007.png");
+    expect(render("", "timestamps", { requestedTime: 83.2 })).toBe("time_00007_00-01-23.200.png");
+  });
+});
+
+describe("validateFileNameTemplate", () => {
+  it("accepts templates that name every frame differently", () => {
+    expect(validateFileNameTemplate("", "subtitles")).toBeNull();
+    expect(validateFileNameTemplate("{video}_{pts_ms}", "fps")).toBeNull();
+  });
+
+  it("rejects illegal characters and unknown tokens", () => {
+    expect(validateFileNameTemplate("a/{index}", "fps")).toEqual({ kind: "illegal-character", character: "/" });
+    expect(validateFileNameTemplate("a\t{index}", "fps")).toEqual({ kind: "illegal-character", character: "\t" });
+    expect(validateFileNameTemplate("{frame}_{index}", "fps")).toEqual({ kind: "unknown-token", token: "frame" });
+  });
+
+  it("rejects templates whose names would collide", () => {
+    expect(validateFileNameTemplate("{video}_{w}x{h}", "fps")).toEqual({ kind: "collision" });
+    expect(validateFileNameTemplate("{pts_ms}", "timestamps")).toEqual({ kind: "collision" });
+    expect(validateFileNameTemplate("{scene}", "fps")).toEqual({ kind: "collision" });
+  });
+});
+
+describe("safeFileNamePart", () => {
+  it("drops the extension and illegal characters", () => {
+    expect(safeFileNamePart("a:b?.mov")).toBe("a_b_");
+    expect(safeFileNamePart("a\u0001b.mov")).toBe("a_b");
+    expect(safeFileNamePart(".mp4")).toBe("video");
+  });
+});
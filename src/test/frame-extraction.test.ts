@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  countTargetFrames,
+  createSourceFrameLookup,
+  findDisplayedFrame,
+  getOutputSize,
+  selectFrameIndices,
+  type ExtractionSettings,
+  type VideoInfo,
+} from "@/lib/frame-extraction";
+
+const settings = (overrides: Partial<ExtractionSettings>): ExtractionSettings => ({
+  mode: "fps",
+  fps: 1,
+  frameStep: 10,
+  totalFrames: 100,
+  timestamps: [],
+  subtitleCues: [],
+  resolution: 100,
+  quality: 0.9,
+  format: "png",
+  startTime: 0,
+  endTime: 10,
+  sceneThreshold: 0.15,
+  sceneMinGap: 1,
+  fileNameTemplate: "",
+  embedMetadata: true,
+  crop: null,
+  ...overrides,
+});
+
+const videoInfo: VideoInfo = { width: 640, height: 360, duration: 10, frameCount: 250, frameRate: 25 };
+
+describe("selectFrameIndices", () => {
+  it("takes every Nth frame from the first", () => {
+    expect(selectFrameIndices(10, settings({ mode: "everyNth", frameStep: 3 }))).toEqual([0, 3, 6, 9]);
+  });
+
+  it("spreads a fixed count evenly across the range", () => {
+    expect(selectFrameIndices(10, settings({ mode: "count", totalFrames: 4 }))).toEqual([1, 3, 6, 8]);
+    // Never more frames than the range has
+    expect(selectFrameIndices(3, settings({ mode: "count", totalFrames: 5 }))).toEqual([0, 1, 2]);
+  });
+
+  it("keeps every frame at the native rate", () => {
+    expect(selectFrameIndices(4, settings({ mode: "all" }))).toEqual([0, 1, 2, 3]);
+  });
+
+  it("leaves time-based modes alone", () => {
+    expect(selectFrameIndices(10, settings({ mode: "fps" }))).toBeNull();
+  });
+});
+
+describe("getOutputSize", () => {
+  it("scales the cropped area rather than the whole frame", () => {
+    const crop = { x: 0.25, y: 0, width: 0.5, height: 0.5 };
+    expect(getOutputSize(1920, 1080, settings({ resolution: 50 }))).toEqual({ width: 960, height: 540 });
+    expect(getOutputSize(1920, 1080, settings({ resolution: 50, crop }))).toEqual({ width: 480, height: 270 });
+  });
+});
+
+describe("countTargetFrames", () => {
+  it("estimates index modes from the nominal frame rate", () => {
+    expect(countTargetFrames(videoInfo, settings({ mode: "everyNth", frameStep: 10, startTime: 2, endTime: 6 }))).toBe(10);
+    expect(countTargetFrames(videoInfo, settings({ mode: "count", totalFrames: 40 }))).toBe(40);
+    expect(countTargetFrames(videoInfo, settings({ mode: "all" }))).toBe(250);
+    expect(countTargetFrames(videoInfo, settings({ mode: "fps", fps: 2 }))).toBe(20);
+    expect(countTargetFrames(videoInfo, settings({ mode: "timestamps", timestamps: [1, 4, 12], endTime: 5 }))).toBe(2);
+    const subtitleCues = [{ start: 1, end: 3, text: "a" }, { start: 9, end: 13, text: "b" }];
+    expect(countTargetFrames(videoInfo, settings({ mode: "subtitles", subtitleCues }))).toBe(1);
+  });
+});
+
+describe("findDisplayedFrame", () => {
+  it("picks the frame on screen at the requested time", () => {
+    const frameTimes = [0, 0.04, 0.08, 0.12];
+    expect(findDisplayedFrame(frameTimes, 0.05)).toBe(1);
+    expect(findDisplayedFrame(frameTimes, 0.08)).toBe(2);
+    expect(findDisplayedFrame(frameTimes, 5)).toBe(3);
+    expect(findDisplayedFrame([1, 2], 0.5)).toBe(0);
+  });
+});
+
+describe("createSourceFrameLookup", () => {
+  it("finds frames in presentation order", () => {
+    // Decode order I P B B at 1000 ticks per second
+    const samples = [
+      { cts: 0, is_sync: true },
+      { cts: 3000, is_sync: false },
+      { cts: 1000, is_sync: false },
+      { cts: 2000, is_sync: false },
+    ].map((sample, number) => ({ ...sample, number, offset: 0, size: 1, duration: 1000 }));
+    const findSourceFrame = createSourceFrameLookup(samples, 1000);
+    expect(findSourceFrame(2.5)).toEqual({ index: 2, time: 2, keyframe: false });
+    expect(findSourceFrame(0)).toEqual({ index: 0, time: 0, keyframe: true });
+    expect(createSourceFrameLookup([], 1000)(1)).toBeUndefined();
+  });
+});
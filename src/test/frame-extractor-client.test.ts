@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import { runFrameExtractorWorker, type FrameExtractorWorker } from "@/lib/frame-extractor-client";
+import type { ExtractedFrame, ExtractionSettings, VideoInfo } from "@/lib/frame-extraction";
+import type { FrameExtractorResponse } from "@/workers/frame-extractor.worker";
+
+const createFakeWorker = () => {
+  const posted: unknown[] = [];
+  const worker: FrameExtractorWorker = {
+    postMessage: (message: unknown) => posted.push(message),
+    terminate: vi.fn(),
+    onmessage: null,
+    onerror: null,
+  };
+  const send = (message: FrameExtractorResponse) => worker.onmessage?.({ data: message } as MessageEvent<FrameExtractorResponse>);
+  return { worker, posted, send };
+};
+
+const frame = (timestamp: number) => ({ timestamp }) as ExtractedFrame;
+
+const run = (worker: FrameExtractorWorker, onFrameReady?: (frame: ExtractedFrame, index: number) => Promise<void>) =>
+  runFrameExtractorWorker(() => worker, {} as File, {} as VideoInfo, {} as ExtractionSettings, {
+    onProgress: () => {},
+    onFrameReady,
+  });
+
+describe("runFrameExtractorWorker", () => {
+  it("saves frames in order before resolving", async () => {
+    const { worker, send } = createFakeWorker();
+    const saved: number[] = [];
+    const result = run(worker, async (_, index) => {
+      await new Promise((resolve) => setTimeout(resolve, index === 0 ? 5 : 0));
+      saved.push(index);
+    });
+    send({ type: "frame", frame: frame(0), frameIndex: 0 });
+    send({ type: "frame", frame: frame(1), frameIndex: 1 });
+    send({ type: "done" });
+    await expect(result).resolves.toEqual([]);
+    expect(saved).toEqual([0, 1]);
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it("stops the worker and rejects with the first save error", async () => {
+    const { worker, posted, send } = createFakeWorker();
+    const onFrameReady = vi.fn()
+      .mockRejectedValueOnce(new Error("disk full"))
+      .mockRejectedValueOnce(new Error("second failure"));
+    const result = run(worker, onFrameReady);
+    send({ type: "frame", frame: frame(0), frameIndex: 0 });
+    send({ type: "frame", frame: frame(1), frameIndex: 1 });
+    send({ type: "done" });
+
+    await expect(result).rejects.toThrow("disk full");
+    // Frames after the failure are dropped rather than saved into broken output
+    expect(onFrameReady).toHaveBeenCalledTimes(1);
+    expect(posted).toContainEqual({ type: "cancel" });
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it("finishes queued saves before rejecting with a worker error", async () => {
+    const { worker, send } = createFakeWorker();
+    const saved: number[] = [];
+    const result = run(worker, async (_, index) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      saved.push(index);
+    });
+    send({ type: "frame", frame: frame(0), frameIndex: 0 });
+    send({ type: "frame", frame: frame(1), frameIndex: 1 });
+    send({ type: "error", name: "Error", message: "decode failed" });
+
+    await expect(result).rejects.toThrow("decode failed");
+    expect(saved).toEqual([0, 1]);
+  });
+
+  it("collects frames when there is no save callback", async () => {
+    const { worker, send } = createFakeWorker();
+    const result = run(worker);
+    send({ type: "frame", frame: frame(1), frameIndex: 1 });
+    send({ type: "frame", frame: frame(0), frameIndex: 0 });
+    send({ type: "done" });
+    await expect(result).resolves.toEqual([frame(0), frame(1)]);
+  });
+
+  it("doesn't start a worker when the signal is already aborted", async () => {
+    const createWorker = vi.fn();
+    const controller = new AbortController();
+    controller.abort();
+    const result = runFrameExtractorWorker(createWorker, {} as File, {} as VideoInfo, {} as ExtractionSettings, {
+      onProgress: () => {},
+      signal: controller.signal,
+    });
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  it("turns a worker AbortError back into one", async () => {
+    const { worker, send } = createFakeWorker();
+    const result = run(worker);
+    send({ type: "error", name: "AbortError", message: "cancelled" });
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
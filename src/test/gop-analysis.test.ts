@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { analyzeGop, classifyFrames, downsampleByMax, getGopStats, getRollingBitrate } from "@/lib/gop-analysis";
+import type { MediaSample } from "@/lib/sample-table";
+
+// Decode-order samples for a display-order pattern like "IBBP", with B frames after their anchor
+const samplesFromPattern = (pattern: string, sizes: Record<string, number> = { I: 5000, P: 2000, B: 500 }) => {
+  const displayOrder = [...pattern].map((type, index) => ({ type, cts: index * 1000 }));
+  const decodeOrder: typeof displayOrder = [];
+  let pendingB: typeof displayOrder = [];
+  for (const frame of displayOrder) {
+    if (frame.type === "B") {
+      pendingB.push(frame);
+    } else {
+      decodeOrder.push(frame, ...pendingB);
+      pendingB = [];
+    }
+  }
+  decodeOrder.push(...pendingB);
+  return decodeOrder.map(({ type, cts }, number): MediaSample => ({
+    number,
+    offset: number * 10_000,
+    size: sizes[type],
+    cts,
+    duration: 1000,
+    is_sync: type === "I",
+  }));
+};
+
+describe("classifyFrames", () => {
+  it("marks reordered frames as B", () => {
+    const frames = classifyFrames(samplesFromPattern("IBBPBBPIBBP"), 30_000);
+    expect(frames.map((frame) => frame.type).join("")).toBe("IPBBPBBIPBB");
+  });
+
+  it("keeps P-only streams free of B frames", () => {
+    const frames = classifyFrames(samplesFromPattern("IPPPPIPPPP"), 30_000);
+    expect(frames.every((frame) => frame.type !== "B")).toBe(true);
+  });
+});
+
+describe("getGopStats", () => {
+  it("splits at keyframes", () => {
+    const frames = classifyFrames(samplesFromPattern("IPPPPPPPPPIPPPPIPP"), 10_000);
+    expect(getGopStats(frames)).toEqual([
+      { time: 0, length: 10, size: 5000 + 9 * 2000 },
+      { time: 1, length: 5, size: 5000 + 4 * 2000 },
+      { time: 1.5, length: 3, size: 5000 + 2 * 2000 },
+    ]);
+  });
+});
+
+describe("getRollingBitrate", () => {
+  it("averages bytes over the trailing window", () => {
+    // 10 frames per second of 1250 bytes = 100 kb/s
+    const frames = classifyFrames(samplesFromPattern("I" + "P".repeat(39), { I: 1250, P: 1250 }), 10_000);
+    const points = getRollingBitrate(frames, 4);
+    expect(points).toHaveLength(4);
+    expect(points[3].time).toBeCloseTo(3.9);
+    expect(points.map((point) => point.kbps)).toEqual([100, 100, 100, 100]);
+  });
+});
+
+describe("analyzeGop", () => {
+  it("summarizes the stream", () => {
+    const analysis = analyzeGop(samplesFromPattern("IBBPBBPBBP" + "IBBP"), 30_000);
+    expect(analysis.pattern).toBe("IBBPBBPBBP");
+    expect(analysis.hasBFrames).toBe(true);
+    expect(analysis.frames.map((frame) => frame.type).join("")).toBe("IBBPBBPBBPIBBP");
+    expect(analysis.gops.map((gop) => gop.length)).toEqual([10, 4]);
+    expect(analysis.averageGopLength).toBe(7);
+    expect(analysis.maxGopLength).toBe(10);
+    expect(analysis.peakKbps).toBeGreaterThan(0);
+  });
+});
+
+describe("downsampleByMax", () => {
+  it("keeps the largest item of each bucket", () => {
+    expect(downsampleByMax([1, 9, 2, 3, 8, 4, 5], 3, (value) => value)).toEqual([9, 8, 5]);
+    expect(downsampleByMax([1, 2], 3, (value) => value)).toEqual([1, 2]);
+  });
+});
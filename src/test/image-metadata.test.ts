@@ -0,0 +1,95 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import { embedFrameMetadata, type FrameProvenance } from "@/lib/image-metadata";
+import { crc32 } from "@/lib/zip-writer";
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// jsdom's Blob has no arrayBuffer(), which embedFrameMetadata reads through
+const embed = async (bytes: number[], provenance: FrameProvenance) =>
+  readBlob(await embedFrameMetadata(new NodeBlob([new Uint8Array(bytes)]) as unknown as Blob, provenance));
+
+const provenance: FrameProvenance = { source: "צילום & co.mp4", pts: 83.25, sourceIndex: 1998, outputIndex: 4 };
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const utf8 = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array; crcOk: boolean }[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+    chunks.push({
+      type: ascii(typeAndData.subarray(0, 4)),
+      data: typeAndData.subarray(4),
+      crcOk: view.getUint32(offset + 8 + length) === crc32(typeAndData),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe("embedFrameMetadata", () => {
+  it("adds text chunks after the PNG header", async () => {
+    const ihdr = [...u32(13), ...[..."IHDR"].map((c) => c.charCodeAt(0)), ...new Array(13).fill(0), 0, 0, 0, 0];
+    const iend = [0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82];
+    const chunks = readPngChunks(await embed([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...ihdr, ...iend], provenance));
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(["IHDR", "iTXt", "tEXt", "tEXt", "tEXt", "tEXt", "iTXt", "IEND"]);
+    expect(chunks.slice(1, -1).every((chunk) => chunk.crcOk)).toBe(true);
+    expect(utf8(chunks[1].data)).toBe("Source\0\0\0\0\0צילום & co.mp4");
+    expect(ascii(chunks[2].data)).toBe("PTS\x0083.250000");
+    expect(ascii(chunks[4].data)).toBe("FrameIndex\x001998");
+    expect(utf8(chunks[6].data)).toContain("<fx:FrameIndex>1998</fx:FrameIndex>");
+    expect(utf8(chunks[6].data)).toContain("<dc:source>צילום &amp; co.mp4</dc:source>");
+  });
+
+  it("adds EXIF and XMP segments after the JFIF header", async () => {
+    const app0 = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+    const bytes = await embed([0xff, 0xd8, ...app0, 0xff, 0xd9], { ...provenance, sourceIndex: undefined });
+
+    expect([...bytes.subarray(0, 8)]).toEqual([0xff, 0xd8, ...app0]);
+    expect([...bytes.subarray(8, 10)]).toEqual([0xff, 0xe1]);
+    const exifLength = (bytes[10] << 8) | bytes[11];
+    const exif = bytes.subarray(12, 10 + exifLength);
+    expect(ascii(exif.subarray(0, 10))).toBe("Exif\0\0MM\0*");
+    expect(utf8(exif)).toContain("צילום & co.mp4 @ 00:01:23.250\0");
+
+    const xmp = bytes.subarray(10 + exifLength);
+    expect([...xmp.subarray(0, 2)]).toEqual([0xff, 0xe1]);
+    expect(utf8(xmp)).toContain("http://ns.adobe.com/xap/1.0/\0<?xpacket");
+    expect(utf8(xmp)).not.toContain("FrameIndex");
+    expect([...bytes.subarray(-2)]).toEqual([0xff, 0xd9]);
+  });
+
+  it("switches a lossless WebP to the extended format with an XMP chunk", async () => {
+    // VP8L header for a 640x360 image with alpha
+    const bits = 639 | (359 << 14) | (1 << 28);
+    const vp8l = [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, bits >>> 24, 0];
+    const riff = [..."RIFF"].map((c) => c.charCodeAt(0));
+    const webp = [..."WEBPVP8L"].map((c) => c.charCodeAt(0));
+    const bytes = await embed([...riff, 4 + 8 + 6, 0, 0, 0, ...webp, 6, 0, 0, 0, ...vp8l], provenance);
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(ascii(bytes.subarray(12, 16))).toBe("VP8X");
+    expect(bytes[20]).toBe(0x14);
+    expect([...bytes.subarray(24, 30)]).toEqual([0x7f, 0x02, 0x00, 0x67, 0x01, 0x00]);
+    expect(ascii(bytes.subarray(30, 34))).toBe("VP8L");
+    expect(ascii(bytes.subarray(44, 48))).toBe("XMP ");
+    expect(utf8(bytes.subarray(52, 52 + view.getUint32(48, true)))).toMatch(/^<\?xpacket[\s\S]*<\?xpacket end="r"\?>$/);
+  });
+
+  it("leaves other data alone", async () => {
+    const blob = new NodeBlob([new Uint8Array([1, 2, 3])]) as unknown as Blob;
+    expect(await embedFrameMetadata(blob, provenance)).toBe(blob);
+  });
+});
@@ -0,0 +1,56 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import type { ExtractionSettings } from "@/lib/frame-extraction";
+import { buildManifestCsv, buildManifestJson, createManifestFrame, hashBlob, type ExtractionManifest } from "@/lib/manifest";
+
+const blobOf = (text: string) => new NodeBlob([text]) as unknown as Blob;
+
+describe("hashBlob", () => {
+  it("returns the SHA-256 as hex", async () => {
+    expect(await hashBlob(blobOf("abc"))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("manifest", () => {
+  const createManifest = async (): Promise<ExtractionManifest> => ({
+    source: { name: "clip.mp4", size: 1234 },
+    method: "webcodecs",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    settings: { mode: "fps", fps: 1 } as ExtractionSettings,
+    frames: [
+      await createManifestFrame("frame_00001.png", {
+        blob: blobOf("abc"),
+        timestamp: 1 / 3,
+        width: 640,
+        height: 360,
+        sourceIndex: 10,
+        keyframe: true,
+      }),
+      await createManifestFrame("a,\"b\".png", { blob: blobOf(""), timestamp: 2, width: 640, height: 360, requestedTime: 2.01 }),
+    ],
+  });
+
+  it("describes each frame", async () => {
+    const manifest = await createManifest();
+    expect(manifest.frames[0]).toEqual({
+      file: "frame_00001.png",
+      pts: 0.333333,
+      requestedTime: undefined,
+      sourceIndex: 10,
+      keyframe: true,
+      width: 640,
+      height: 360,
+      bytes: 3,
+      sha256: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    });
+    expect(manifest.frames[1]).toMatchObject({ sourceIndex: null, keyframe: null, bytes: 0 });
+    expect(JSON.parse(buildManifestJson(manifest))).toMatchObject({ source: { name: "clip.mp4" }, method: "webcodecs" });
+  });
+
+  it("writes a CSV row per frame with quoting", async () => {
+    const lines = buildManifestCsv(await createManifest()).trim().split("\n");
+    expect(lines[0]).toBe("file,pts,requestedTime,sourceIndex,keyframe,width,height,bytes,sha256");
+    expect(lines[1]).toBe("frame_00001.png,0.333333,,10,true,640,360,3,ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(lines[2]).toMatch(/^"a,""b"".png",2,2.01,,,640,360,0,e3b0c442/);
+  });
+});
@@ -0,0 +1,150 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import { createMp4Muxer } from "@/lib/mp4-muxer";
+import { createWebmMuxer } from "@/lib/webm-muxer";
+import { describeCodecProfile } from "@/lib/codec-strings";
+import {
+  createFallbackMediaInfo,
+  getAudioTrack,
+  getParsedVideoDecoderConfig,
+  getVideoTrack,
+  parseMedia,
+  probeMedia,
+} from "@/lib/media-probe";
+
+const fakeChunk = (timestamp: number, key: boolean, duration: number, size = 1_000) => {
+  const data = new Uint8Array(size).fill(key ? 1 : 2);
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      (destination as Uint8Array).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// jsdom's Blob has no arrayBuffer(), which the probe reads through
+const toNodeBlob = async (blob: Blob) => new NodeBlob([await readBlob(blob)]) as unknown as Blob;
+
+// avcC for Constrained Baseline 3.0 with a minimal SPS/PPS
+const AVCC = new Uint8Array([
+  0x01, 0x42, 0xc0, 0x1e, 0xff, 0xe1, 0x00, 0x04, 0x67, 0x42, 0xc0, 0x1e, 0x01, 0x00, 0x02, 0x68, 0xce,
+]);
+
+// One second of 30fps video with a keyframe every 10 frames, plus 50 audio packets of 20ms
+const addTestSamples = (muxer: ReturnType<typeof createMp4Muxer> | ReturnType<typeof createWebmMuxer>, description?: Uint8Array) => {
+  for (let i = 0; i < 30; i++) {
+    const meta = i === 0 && description ? { decoderConfig: { description } } : undefined;
+    muxer.addVideoChunk(fakeChunk(Math.round((i * 1_000_000) / 30), i % 10 === 0, 33_333), meta);
+  }
+  for (let i = 0; i < 50; i++) {
+    muxer.addAudioChunk(fakeChunk(i * 20_000, true, 20_000, 100));
+  }
+};
+
+describe("probeMedia", () => {
+  it("describes the video and audio tracks of an MP4", async () => {
+    const muxer = createMp4Muxer({
+      video: { codec: "avc1.42C01E", width: 320, height: 240 },
+      audio: { codec: "mp4a.40.2", sampleRate: 48000, numberOfChannels: 2 },
+    });
+    addTestSamples(muxer, AVCC);
+    const info = await probeMedia(await toNodeBlob(muxer.finalize()));
+
+    expect(info.container).toBe("mp4");
+    expect(info.fragmented).toBe(false);
+    expect(info.duration).toBeCloseTo(1, 1);
+    expect(info.tracks.map((track) => track.kind)).toEqual(["video", "audio"]);
+
+    const video = getVideoTrack(info)!;
+    expect(video.codec).toBe("avc1.42c01e");
+    expect(video).toMatchObject({ profile: "Baseline", level: "3", sampleCount: 30 });
+    expect(video.bitrate).toBeGreaterThan(200_000);
+    expect(video.video).toMatchObject({ width: 320, height: 240, rotation: 0, pixelAspectRatio: 1 });
+    expect(video.video!.frameRate).toBeCloseTo(30, 0);
+    expect(video.video!.keyframeTimes.map((time) => Math.round(time * 30))).toEqual([0, 10, 20]);
+
+    const audio = getAudioTrack(info)!;
+    expect(audio).toMatchObject({ codec: "mp4a.40.2", profile: "LC", sampleCount: 50 });
+    expect(audio.audio).toMatchObject({ sampleRate: 48000, channels: 2 });
+  });
+
+  it("describes the video and audio tracks of a WebM", async () => {
+    const muxer = createWebmMuxer({
+      video: { codec: "vp8", width: 320, height: 240 },
+      audio: { codec: "opus", sampleRate: 48000, numberOfChannels: 2 },
+    });
+    addTestSamples(muxer);
+    const info = await probeMedia(await toNodeBlob(muxer.finalize()));
+
+    expect(info.container).toBe("webm");
+    expect(info.tracks.map((track) => track.kind)).toEqual(["video", "audio"]);
+
+    const video = getVideoTrack(info)!;
+    expect(video).toMatchObject({ codec: "vp8", sampleCount: 30 });
+    expect(video.video).toMatchObject({ width: 320, height: 240 });
+    expect(video.video!.keyframeTimes.map((time) => Math.round(time * 30))).toEqual([0, 10, 20]);
+
+    const audio = getAudioTrack(info)!;
+    expect(audio).toMatchObject({ codec: "opus", sampleCount: 50 });
+    expect(audio.audio).toMatchObject({ sampleRate: 48000, channels: 2 });
+  });
+
+  it("builds decoder configs from the probe's own parse", async () => {
+    const mp4Muxer = createMp4Muxer({
+      video: { codec: "avc1.42C01E", width: 320, height: 240 },
+      audio: { codec: "mp4a.40.2", sampleRate: 48000, numberOfChannels: 2 },
+    });
+    addTestSamples(mp4Muxer, AVCC);
+    const mp4File = await toNodeBlob(mp4Muxer.finalize());
+    const mp4 = await parseMedia(mp4File);
+    expect(mp4.container).toBe("mp4");
+    expect(await getParsedVideoDecoderConfig(mp4File, mp4)).toMatchObject({
+      codec: "avc1.42c01e",
+      codedWidth: 320,
+      codedHeight: 240,
+      description: AVCC,
+    });
+
+    const webmMuxer = createWebmMuxer({
+      video: { codec: "vp8", width: 320, height: 240 },
+      audio: { codec: "opus", sampleRate: 48000, numberOfChannels: 2 },
+    });
+    addTestSamples(webmMuxer);
+    const webmFile = await toNodeBlob(webmMuxer.finalize());
+    const webm = await parseMedia(webmFile);
+    expect(webm.container).toBe("webm");
+    expect(await getParsedVideoDecoderConfig(webmFile, webm)).toMatchObject({ codec: "vp8", codedWidth: 320 });
+  });
+
+  it("falls back to the element's dimensions for other containers", () => {
+    const info = createFallbackMediaInfo(new Blob([new Uint8Array(1000)]), { width: 640, height: 360, duration: 2 });
+    expect(info.container).toBe("unknown");
+    expect(getVideoTrack(info)?.video).toMatchObject({ width: 640, height: 360, frameRate: 0 });
+    expect(getVideoTrack(info)?.bitrate).toBe(4000);
+    expect(getAudioTrack(info)).toBeUndefined();
+  });
+});
+
+describe("describeCodecProfile", () => {
+  it.each([
+    { codec: "avc1.640028", expected: { profile: "High", level: "4" } },
+    { codec: "hvc1.2.4.L153.B0", expected: { profile: "Main 10", level: "5.1" } },
+    { codec: "vp09.02.41.10", expected: { profile: "2", level: "4.1" } },
+    { codec: "av01.0.08M.08", expected: { profile: "Main", level: "4.0" } },
+    { codec: "mp4a.40.5", expected: { profile: "HE-AAC" } },
+    { codec: "opus", expected: {} },
+  ])("reads $codec", ({ codec, expected }) => {
+    expect(describeCodecProfile(codec)).toEqual(expected);
+  });
+});
@@ -0,0 +1,187 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import * as MP4Box from "mp4box";
+import { createMp4Muxer } from "@/lib/mp4-muxer";
+import { demuxMp4Video, probeMp4 } from "@/lib/mp4-demux";
+import { buildAv1CodecConfig, concat } from "@/lib/muxer-utils";
+import { getSampleTableStats, readSampleBatch } from "@/lib/sample-table";
+
+const fakeChunk = (timestamp: number, key: boolean, fill = key ? 1 : 2, size = 16) => {
+  const data = new Uint8Array(size).fill(fill);
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration: 33_333,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      (destination as Uint8Array).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// avcC for Constrained Baseline 3.0 with a minimal SPS/PPS
+const AVCC = new Uint8Array([
+  0x01, 0x42, 0xc0, 0x1e, 0xff, 0xe1, 0x00, 0x04, 0x67, 0x42, 0xc0, 0x1e, 0x01, 0x00, 0x02, 0x68, 0xce,
+]);
+
+// jsdom's Blob has no arrayBuffer(), which the demuxer reads through
+const toNodeBlob = (parts: Uint8Array[]) => new NodeBlob(parts) as unknown as Blob;
+
+// Mux a short fixture with the given sample entry
+const muxFixture = async (codec: string, description?: Uint8Array) => {
+  const muxer = createMp4Muxer({ video: { codec, width: 320, height: 240 } });
+  for (let i = 0; i < 10; i++) {
+    muxer.addVideoChunk(fakeChunk(i * 33_333, i === 0), i === 0 && description ? { decoderConfig: { description } } : undefined);
+  }
+  return toNodeBlob([await readBlob(muxer.finalize())]);
+};
+
+// Re-package a progressive MP4 as init segment + moof/mdat fragments of `samplesPerFragment` samples
+const fragment = async (progressive: Uint8Array, samplesPerFragment: number) => {
+  const file = MP4Box.createFile(true);
+  const segments: Uint8Array[] = [];
+  file.onSegment = (_id, _user, buffer) => segments.push(new Uint8Array(buffer));
+  file.onReady = (info: MP4Box.Movie) => {
+    file.setSegmentOptions(info.videoTracks[0].id, null, { nbSamples: samplesPerFragment });
+    segments.push(new Uint8Array(file.initializeSegmentation().buffer));
+    file.start();
+  };
+  const buffer = progressive.slice().buffer as MP4Box.MP4BoxBuffer;
+  buffer.fileStart = 0;
+  file.appendBuffer(buffer);
+  file.flush();
+  return toNodeBlob(segments);
+};
+
+describe("demuxMp4Video decoder config", () => {
+  it.each([
+    { muxCodec: "avc1.42C01E", description: AVCC, codec: "avc1.42c01e", expectedDescription: AVCC },
+    { muxCodec: "vp8", codec: "vp8" },
+    { muxCodec: "vp09.00.10.08", codec: "vp09.00.10.08" },
+    { muxCodec: "vp09.02.41.10", codec: "vp09.02.41.10" },
+    { muxCodec: "vp09.01.00.08", codec: "vp09.01.10.08" },
+    { muxCodec: "av01.0.08M.08", codec: "av01.0.08M.08", expectedDescription: buildAv1CodecConfig("av01.0.08M.08") },
+    { muxCodec: "av01.0.12H.10", codec: "av01.0.12H.10", expectedDescription: buildAv1CodecConfig("av01.0.12H.10") },
+    { muxCodec: "av01.2.15M.12", codec: "av01.2.15M.12", expectedDescription: buildAv1CodecConfig("av01.2.15M.12") },
+  ])("configures $muxCodec as $codec", async ({ muxCodec, description, codec, expectedDescription }) => {
+    const track = await demuxMp4Video(await muxFixture(muxCodec, description));
+    expect(track.config.codec).toBe(codec);
+    expect(track.config.codedWidth).toBe(320);
+    expect(track.config.description ? Array.from(track.config.description as Uint8Array) : undefined)
+      .toEqual(expectedDescription ? Array.from(expectedDescription) : undefined);
+    expect(track.samples).toHaveLength(10);
+  });
+});
+
+describe("fragmented MP4 input", () => {
+  it("builds the sample table from moof/trun data", async () => {
+    const muxer = createMp4Muxer({ video: { codec: "vp09.00.10.08", width: 320, height: 240 } });
+    // Large enough that the fragments span several probe reads
+    for (let i = 0; i < 30; i++) {
+      muxer.addVideoChunk(fakeChunk(Math.round((i * 1_000_000) / 30), i % 10 === 0, i, 100_000));
+    }
+    const file = await fragment(await readBlob(muxer.finalize()), 10);
+
+    const { mp4boxFile, info } = await probeMp4(file);
+    expect(info.isFragmented).toBe(true);
+    const track = info.videoTracks[0];
+    const samples = mp4boxFile.getTrackSamplesInfo(track.id);
+    expect(samples).toHaveLength(30);
+
+    const stats = getSampleTableStats(samples, track.timescale);
+    expect(stats.frameCount).toBe(30);
+    expect(stats.frameRate).toBeCloseTo(30, 0);
+    expect(stats.keyframeTimes.map((time) => Math.round(time * 30))).toEqual([0, 10, 20]);
+
+    const payloads = await readSampleBatch(file, samples.slice(9, 12));
+    expect(payloads.map((payload) => payload[0])).toEqual([9, 10, 11]);
+
+    const demuxed = await demuxMp4Video(file);
+    expect(demuxed.config.codec).toBe("vp09.00.10.08");
+    expect(demuxed.samples).toHaveLength(30);
+  });
+});
+
+describe("probeMp4 reads", () => {
+  // A Blob whose slices record how many bytes were actually read
+  const countingBlob = (bytes: Uint8Array) => {
+    const blob = toNodeBlob([bytes]);
+    let bytesRead = 0;
+    const counting = {
+      size: blob.size,
+      slice: (start?: number, end?: number) => {
+        const part = blob.slice(start, end);
+        return {
+          arrayBuffer: () => {
+            bytesRead += part.size;
+            return part.arrayBuffer();
+          },
+        } as Blob;
+      },
+    } as Blob;
+    return { blob: counting, bytesRead: () => bytesRead };
+  };
+
+  const readUint32 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+
+  const topLevelBoxes = (bytes: Uint8Array) => {
+    const boxes: Record<string, Uint8Array> = {};
+    for (let offset = 0; offset < bytes.length;) {
+      const size = readUint32(bytes, offset);
+      boxes[new TextDecoder().decode(bytes.subarray(offset + 4, offset + 8))] = bytes.subarray(offset, offset + size);
+      offset += size;
+    }
+    return boxes;
+  };
+
+  // Move the moov after the mdat, shifting the stco chunk offsets by the moov size
+  const moveMoovToEnd = (bytes: Uint8Array) => {
+    const { ftyp, moov, mdat } = topLevelBoxes(bytes);
+    const movedMoov = moov.slice();
+    const stco = movedMoov.findIndex((_, i) => new TextDecoder().decode(movedMoov.subarray(i, i + 4)) === "stco");
+    const view = new DataView(movedMoov.buffer);
+    const entryCount = view.getUint32(stco + 8);
+    for (let i = 0; i < entryCount; i++) {
+      const entry = stco + 12 + i * 4;
+      view.setUint32(entry, view.getUint32(entry) - moov.length);
+    }
+    return concat([ftyp, mdat, movedMoov]);
+  };
+
+  const muxLargeFile = async () => {
+    const muxer = createMp4Muxer({ video: { codec: "vp09.00.10.08", width: 320, height: 240 } });
+    for (let i = 0; i < 60; i++) {
+      muxer.addVideoChunk(fakeChunk(Math.round((i * 1_000_000) / 30), i % 30 === 0, i, 100_000));
+    }
+    return readBlob(muxer.finalize());
+  };
+
+  it("stops after the moov of a fast-start file", async () => {
+    const bytes = await muxLargeFile();
+    const { blob, bytesRead } = countingBlob(bytes);
+    const { mp4boxFile, info } = await probeMp4(blob);
+    expect(mp4boxFile.getTrackSamplesInfo(info.videoTracks[0].id)).toHaveLength(60);
+    expect(bytesRead()).toBeLessThan(bytes.length / 2);
+  });
+
+  it("skips the mdat to reach a moov at the end of the file", async () => {
+    const bytes = moveMoovToEnd(await muxLargeFile());
+    const { blob, bytesRead } = countingBlob(bytes);
+    const { mp4boxFile, info } = await probeMp4(blob);
+    const samples = mp4boxFile.getTrackSamplesInfo(info.videoTracks[0].id);
+    expect(samples).toHaveLength(60);
+    expect(bytesRead()).toBeLessThan(bytes.length / 2);
+
+    const payloads = await readSampleBatch(toNodeBlob([bytes]), samples.slice(30, 32));
+    expect(payloads.map((payload) => payload[0])).toEqual([30, 31]);
+  });
+});
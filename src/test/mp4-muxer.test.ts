@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import * as MP4Box from "mp4box";
+import { createMp4Muxer } from "@/lib/mp4-muxer";
+
+const fakeChunk = (timestamp: number, key: boolean, size = 16) => {
+  const data = new Uint8Array(size).fill(key ? 1 : 2);
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration: 33_333,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      new Uint8Array(destination as ArrayBuffer).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const parseMp4 = async (blob: Blob) => {
+  const buffer = (await readBlob(blob)) as MP4Box.MP4BoxBuffer;
+  buffer.fileStart = 0;
+  const file = MP4Box.createFile();
+  let info: MP4Box.Movie | null = null;
+  file.onReady = (movie: MP4Box.Movie) => {
+    info = movie;
+  };
+  file.appendBuffer(buffer);
+  file.flush();
+  return { file, info: info as MP4Box.Movie | null };
+};
+
+// avcC for Constrained Baseline 3.0 with a minimal SPS/PPS
+const AVCC = new Uint8Array([
+  0x01, 0x42, 0xc0, 0x1e, 0xff, 0xe1, 0x00, 0x04, 0x67, 0x42, 0xc0, 0x1e, 0x01, 0x00, 0x02, 0x68, 0xce,
+]);
+
+describe("createMp4Muxer", () => {
+  it("writes a parseable H.264 track with sync samples and timing", async () => {
+    const muxer = createMp4Muxer({ video: { codec: "avc1.42C01E", width: 320, height: 240 } });
+    for (let i = 0; i < 60; i++) {
+      muxer.addVideoChunk(fakeChunk(i * 33_333, i % 30 === 0), i === 0 ? { decoderConfig: { description: AVCC } } : undefined);
+    }
+
+    const { file, info } = await parseMp4(muxer.finalize());
+    expect(info).not.toBeNull();
+    const track = info!.videoTracks[0];
+    expect(track.codec).toBe("avc1.42c01e");
+    expect(track.nb_samples).toBe(60);
+    expect(track.video?.width).toBe(320);
+    expect(track.duration / track.timescale).toBeCloseTo(2, 1);
+
+    const samples = file.getTrackSamplesInfo(track.id);
+    expect(samples.filter((sample) => sample.is_sync).map((sample) => sample.number)).toEqual([0, 30]);
+    expect(samples[1].cts).toBe(3000);
+  });
+
+  it("builds vpcC from the codec string for VP9", async () => {
+    const muxer = createMp4Muxer({ video: { codec: "vp09.00.10.08", width: 640, height: 360 } });
+    muxer.addVideoChunk(fakeChunk(0, true));
+    muxer.addVideoChunk(fakeChunk(33_333, false));
+
+    const { info } = await parseMp4(muxer.finalize());
+    expect(info!.videoTracks[0].codec.startsWith("vp09.00.10.08")).toBe(true);
+  });
+
+  it("adds an AAC track alongside the video", async () => {
+    const muxer = createMp4Muxer({
+      video: { codec: "vp09.00.10.08", width: 640, height: 360 },
+      audio: { codec: "mp4a.40.2", sampleRate: 48000, numberOfChannels: 2 },
+    });
+    for (let i = 0; i < 30; i++) {
+      muxer.addVideoChunk(fakeChunk(i * 33_333, i === 0));
+    }
+    for (let i = 0; i < 47; i++) {
+      muxer.addAudioChunk(fakeChunk(Math.round((i * 1024 * 1_000_000) / 48000), true, 8));
+    }
+
+    const { info } = await parseMp4(muxer.finalize());
+    const audio = info!.audioTracks[0];
+    expect(audio.codec).toBe("mp4a.40.2");
+    expect(audio.audio?.sample_rate).toBe(48000);
+    expect(audio.audio?.channel_count).toBe(2);
+    expect(audio.nb_samples).toBe(47);
+    expect(audio.timescale).toBe(48000);
+  });
+
+  it("requires a decoder description for H.264", () => {
+    const muxer = createMp4Muxer({ video: { codec: "avc1.42001E", width: 320, height: 240 } });
+    muxer.addVideoChunk(fakeChunk(0, true));
+    expect(() => muxer.finalize()).toThrow(/description/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { buildCutListCsv, createSceneDetector, lumaDifference } from "@/lib/scene-detection";
+
+const flat = (value: number) => new Uint8Array(16).fill(value);
+
+describe("scene detection", () => {
+  it("normalizes the luma difference to 0-1", () => {
+    expect(lumaDifference(flat(0), flat(255))).toBe(1);
+    expect(lumaDifference(flat(100), flat(100))).toBe(0);
+  });
+
+  it("cuts on large changes and honours the minimum gap", () => {
+    const detector = createSceneDetector({ threshold: 0.2, minGap: 1 });
+    const timeline: [number, number][] = [
+      [0, 10], [0.5, 12], [1, 200], [1.5, 20], [3, 20], [4, 220],
+    ];
+    const cuts = timeline
+      .map(([time, value]) => detector.push(flat(value), time))
+      .filter((cut) => cut !== null)
+      .map((cut) => cut!.timestamp);
+    // 1.5 changes enough but comes too soon after the cut at 1
+    expect(cuts).toEqual([0, 1, 4]);
+  });
+
+  it("writes a CSV cut list", () => {
+    const csv = buildCutListCsv([{ timestamp: 61.5, score: 1, fileName: "scene_00001.png" }]);
+    expect(csv.split("\n")[1]).toBe("1,61.500,00:01:01.500,1.0000,scene_00001.png");
+  });
+
+  it("quotes file names holding commas or quotes", () => {
+    const csv = buildCutListCsv([{ timestamp: 1, score: 0.5, fileName: 'take 1, "wide".png' }]);
+    expect(csv.split("\n")[1]).toBe('1,1.000,00:00:01.000,0.5000,"take 1, ""wide"".png"');
+  });
+});
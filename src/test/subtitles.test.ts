@@ -0,0 +1,101 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import type { MediaTrackInfo } from "@/lib/media-probe";
+import { buildSubtitleManifest, parseSubtitleFile, readSubtitleTrack } from "@/lib/subtitles";
+
+const encoder = new TextEncoder();
+
+const box = (type: string, payload: Uint8Array) => {
+  const bytes = new Uint8Array(8 + payload.length);
+  new DataView(bytes.buffer).setUint32(0, bytes.length);
+  bytes.set(encoder.encode(type), 4);
+  bytes.set(payload, 8);
+  return bytes;
+};
+
+const tx3gSample = (text: string) => {
+  const utf8 = encoder.encode(text);
+  return new Uint8Array([utf8.length >> 8, utf8.length & 0xff, ...utf8]);
+};
+
+const wvttSample = (...texts: string[]) =>
+  texts.length === 0
+    ? box("vtte", new Uint8Array())
+    : new Uint8Array(texts.flatMap((text) => [...box("vttc", box("payl", encoder.encode(text)))]));
+
+// Lay the payloads out back to back and describe them like probeMedia would
+const createTrack = (codec: string, payloads: Uint8Array[], durations: number[]) => {
+  let offset = 0;
+  let cts = 0;
+  const samples = payloads.map((payload, number) => {
+    const sample = { number, offset, size: payload.length, cts, duration: durations[number], is_sync: true };
+    offset += payload.length;
+    cts += durations[number];
+    return sample;
+  });
+  const track = { id: 2, kind: "subtitle", codec, timescale: 1000, samples } as MediaTrackInfo;
+  const file = new NodeBlob(payloads) as unknown as Blob;
+  return { track, file };
+};
+
+describe("parseSubtitleFile", () => {
+  it("reads WebVTT cues and drops markup", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "NOTE a comment",
+      "",
+      "intro",
+      "00:01.000 --> 00:03.500 align:start",
+      "<v Anna>Hello &amp; <i>welcome</i></v>",
+      "",
+      "01:00:00.000 --> 01:00:02.000",
+      "Second",
+      "line",
+    ].join("\n");
+    expect(parseSubtitleFile(vtt)).toEqual([
+      { start: 1, end: 3.5, text: "Hello & welcome" },
+      { start: 3600, end: 3602, text: "Second\nline" },
+    ]);
+  });
+
+  it("reads SRT cues", () => {
+    const srt = "1\r\n00:00:02,500 --> 00:00:04,000\r\n{\\an8}Top\r\n\r\n2\r\n00:00:05,000 --> 00:00:06,000\r\nNext\r\n";
+    expect(parseSubtitleFile(srt)).toEqual([
+      { start: 2.5, end: 4, text: "Top" },
+      { start: 5, end: 6, text: "Next" },
+    ]);
+  });
+});
+
+describe("readSubtitleTrack", () => {
+  it("reads tx3g samples and skips empty gaps", async () => {
+    const { track, file } = createTrack("tx3g", [tx3gSample("One"), tx3gSample(""), tx3gSample("Two")], [1000, 500, 2000]);
+    expect(await readSubtitleTrack(file, track)).toEqual([
+      { start: 0, end: 1, text: "One" },
+      { start: 1.5, end: 3.5, text: "Two" },
+    ]);
+  });
+
+  it("joins wvtt cues split across samples", async () => {
+    const { track, file } = createTrack(
+      "wvtt",
+      [wvttSample("A"), wvttSample("A", "B"), wvttSample(), wvttSample("C")],
+      [1000, 1000, 1000, 1000]
+    );
+    expect(await readSubtitleTrack(file, track)).toEqual([
+      { start: 0, end: 2, text: "A" },
+      { start: 1, end: 2, text: "B" },
+      { start: 3, end: 4, text: "C" },
+    ]);
+  });
+});
+
+describe("buildSubtitleManifest", () => {
+  it("pairs each file with its cue", () => {
+    const cue = { start: 1, end: 2.5, text: "Hi" };
+    expect(JSON.parse(buildSubtitleManifest([{ fileName: "cue_00001.png", time: 1.75, cue }]))).toEqual([
+      { file: "cue_00001.png", time: 1.75, start: 1, end: 2.5, text: "Hi" },
+    ]);
+  });
+});
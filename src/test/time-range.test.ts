@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import * as MP4Box from "mp4box";
+import { formatTimecode, parseTimecode } from "@/lib/timecode";
+import { getFrameTimesInRange, getSamplesForRange, planSparseDecode } from "@/lib/video-decoder";
+
+describe("timecode", () => {
+  it("round-trips HH:MM:SS.mmm", () => {
+    expect(formatTimecode(3723.456)).toBe("01:02:03.456");
+    expect(parseTimecode("01:02:03.456")).toBeCloseTo(3723.456, 6);
+  });
+
+  it("accepts shorter forms and rejects garbage", () => {
+    expect(parseTimecode("1:30")).toBe(90);
+    expect(parseTimecode("12.5")).toBe(12.5);
+    expect(parseTimecode("1.5:30")).toBeNull();
+    expect(parseTimecode("abc")).toBeNull();
+  });
+});
+
+describe("getSamplesForRange", () => {
+  // 10 samples at 1s each, keyframes every 4 samples
+  const samples = Array.from({ length: 10 }, (_, i) => ({
+    number: i,
+    cts: i * 1000,
+    is_sync: i % 4 === 0,
+  })) as unknown as MP4Box.Sample[];
+
+  it("starts at the preceding sync sample and stops at the next GOP after the end", () => {
+    const selected = getSamplesForRange(samples, 1000, { start: 5.5, end: 6.2 });
+    expect(selected.map((sample) => sample.number)).toEqual([4, 5, 6, 7]);
+  });
+
+  it("returns every sample without a range", () => {
+    expect(getSamplesForRange(samples, 1000)).toHaveLength(10);
+  });
+});
+
+const getStepNumbers = (steps: ReturnType<typeof planSparseDecode>) =>
+  steps.map((step) => ({ samples: step.samples.map((sample) => sample.number), targets: step.targets }));
+
+describe("planSparseDecode", () => {
+  // 12 samples at 1s each, keyframes every 4 samples
+  const samples = Array.from({ length: 12 }, (_, i) => ({
+    number: i,
+    cts: i * 1000,
+    is_sync: i % 4 === 0,
+  })) as unknown as MP4Box.Sample[];
+
+  it("decodes only the GOPs with targets, up to the last wanted frame", () => {
+    const steps = getStepNumbers(planSparseDecode(samples, 1000, [1, 2.5, 9.2]));
+    expect(steps).toEqual([
+      { samples: [0, 1, 2, 3], targets: [1000, 3000] },
+      { samples: [8, 9, 10], targets: [10000] },
+    ]);
+  });
+});
+
+describe("getFrameTimesInRange", () => {
+  it("returns the range's frame times in presentation order", () => {
+    // Decode order of an IPBB stream
+    const samples = [0, 3000, 1000, 2000, 4000].map((cts) => ({ cts })) as unknown as MP4Box.Sample[];
+    expect(getFrameTimesInRange(samples, 1000, { start: 1, end: 3.5 })).toEqual([1000, 2000, 3000]);
+    expect(getFrameTimesInRange(samples, 1000)).toEqual([0, 1000, 2000, 3000, 4000]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseSmpteTimecode } from "@/lib/timecode";
+import { parseTimestampList } from "@/lib/timestamp-list";
+
+describe("parseSmpteTimecode", () => {
+  it("reads non-drop-frame timecodes", () => {
+    expect(parseSmpteTimecode("00:00:01:12", 24)).toBe(1.5);
+    expect(parseSmpteTimecode("00:00:01:24", 24)).toBeNull();
+  });
+
+  it("skips dropped frame numbers", () => {
+    // 00:01:00;02 is the first frame of minute one at 29.97
+    expect(parseSmpteTimecode("00:01:00;02", 30000 / 1001)).toBeCloseTo(1800 / (30000 / 1001));
+    expect(parseSmpteTimecode("00:10:00;00", 30000 / 1001)).toBeCloseTo(600, 1);
+  });
+});
+
+describe("parseTimestampList", () => {
+  it("reads plain text with mixed formats", () => {
+    const list = parseTimestampList("12.5\n00:00:03.250\n\n00:00:02:12\n1:05\nlater", 24);
+    expect(list.times).toEqual([2.5, 3.25, 12.5, 65]);
+    expect(list.invalid).toEqual(["later"]);
+  });
+
+  it("takes the first CSV column and skips the header", () => {
+    const list = parseTimestampList("time,note\n\"00:00:04.000\",flicker\n1.5,\"audio drift\"\n1.5,again", 30);
+    expect(list.times).toEqual([1.5, 4]);
+    expect(list.invalid).toEqual([]);
+  });
+
+  it("reads only the first cell of rows with extra columns", () => {
+    expect(parseTimestampList("time,frame\n12,3\n45,7", 30).times).toEqual([12, 45]);
+    expect(parseTimestampList("2;10\n3\t11", 30).times).toEqual([2, 3]);
+  });
+
+  it("keeps comma decimals on their own line", () => {
+    expect(parseTimestampList("00:00:01,500", 30).times).toEqual([1.5]);
+  });
+
+  it("reads JSON arrays of values or objects", () => {
+    expect(parseTimestampList("[3, \"00:00:01.000\"]", 30).times).toEqual([1, 3]);
+    const list = parseTimestampList(JSON.stringify({ bugs: [{ time: "00:00:02.000", note: "x" }, { note: "y" }] }), 30);
+    expect(list.times).toEqual([2]);
+    expect(list.invalid).toEqual([JSON.stringify({ note: "y" })]);
+  });
+});
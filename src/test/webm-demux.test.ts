@@ -0,0 +1,89 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { describe, it, expect } from "vitest";
+import { createWebmMuxer } from "@/lib/webm-muxer";
+import { demuxWebmVideo, getWebmDecoderConfig, isEbmlFile } from "@/lib/webm-demux";
+import { readSampleBatch } from "@/lib/sample-table";
+import { av1CodecStringFromConfig, parseVp9KeyframeHeader } from "@/lib/codec-strings";
+import { buildAv1CodecConfig } from "@/lib/muxer-utils";
+
+// Uncompressed VP9 header prefix: frame marker, profile bits, keyframe flags and the sync code
+const vp9KeyframeHeader = (profile: number) =>
+  new Uint8Array([0x80 | ((profile & 1) << 5) | ((profile >> 1) << 4) | 0x02, 0x49, 0x83, 0x42, 0x00]);
+
+const fakeChunk = (timestamp: number, key: boolean, index: number, profile: number) => {
+  const data = new Uint8Array(24).fill(index);
+  if (key) data.set(vp9KeyframeHeader(profile));
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration: 40_000,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      (destination as Uint8Array).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// jsdom's Blob has no arrayBuffer(), which the demuxer reads through
+const toNodeBlob = async (blob: Blob) => new NodeBlob([await readBlob(blob)]) as unknown as Blob;
+
+const muxTestFile = async (frameCount: number, profile = 0) => {
+  const muxer = createWebmMuxer({ video: { codec: "vp09.00.10.08", width: 320, height: 240 } });
+  for (let i = 0; i < frameCount; i++) {
+    muxer.addVideoChunk(fakeChunk(i * 40_000, i % 10 === 0, i, profile));
+  }
+  return toNodeBlob(muxer.finalize());
+};
+
+describe("demuxWebmVideo", () => {
+  it("builds a sample table pointing at the block payloads", async () => {
+    const file = await muxTestFile(25);
+    expect(await isEbmlFile(file)).toBe(true);
+
+    const track = await demuxWebmVideo(file);
+    expect(track.codecId).toBe("V_VP9");
+    expect(track.width).toBe(320);
+    expect(track.height).toBe(240);
+    expect(track.timescale).toBe(1000);
+    expect(track.duration).toBeCloseTo(1);
+
+    expect(track.samples).toHaveLength(25);
+    expect(track.samples.filter((sample) => sample.is_sync).map((sample) => sample.number)).toEqual([0, 10, 20]);
+    expect(track.samples.map((sample) => sample.cts)).toEqual(Array.from({ length: 25 }, (_, i) => i * 40));
+    expect(track.samples.every((sample) => sample.duration === 40)).toBe(true);
+
+    const payloads = await readSampleBatch(file, track.samples.slice(1, 4));
+    expect(payloads.map((payload) => payload[payload.length - 1])).toEqual([1, 2, 3]);
+  });
+
+  it("reads the VP9 profile from the first keyframe", async () => {
+    const file = await muxTestFile(5, 2);
+    const config = await getWebmDecoderConfig(file, await demuxWebmVideo(file));
+    expect(config).toEqual({ codec: "vp09.02.10.10", codedWidth: 320, codedHeight: 240 });
+  });
+
+  it("rejects files that aren't EBML", async () => {
+    expect(await isEbmlFile(new NodeBlob([new Uint8Array([0, 0, 0, 0x20, 0x66, 0x74, 0x79, 0x70])]) as unknown as Blob)).toBe(false);
+  });
+});
+
+describe("codec strings", () => {
+  it("parses VP9 profile and bit depth", () => {
+    expect(parseVp9KeyframeHeader(vp9KeyframeHeader(0))).toEqual({ profile: 0, bitDepth: 8 });
+    expect(parseVp9KeyframeHeader(vp9KeyframeHeader(2))).toEqual({ profile: 2, bitDepth: 10 });
+  });
+
+  it("round-trips AV1 codec strings through av1C", () => {
+    for (const codec of ["av01.0.08M.08", "av01.0.12H.10", "av01.2.15M.12"]) {
+      expect(av1CodecStringFromConfig(buildAv1CodecConfig(codec))).toBe(codec);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { createWebmMuxer } from "@/lib/webm-muxer";
+
+const fakeChunk = (timestamp: number, key: boolean, size = 16) => {
+  const data = new Uint8Array(size).fill(key ? 1 : 2);
+  return {
+    type: (key ? "key" : "delta") as EncodedVideoChunkType,
+    timestamp,
+    duration: 33_333,
+    byteLength: data.byteLength,
+    copyTo: (destination: AllowSharedBufferSource) => {
+      new Uint8Array(destination as ArrayBuffer).set(data);
+    },
+  };
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+interface ParsedElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  size: number;
+}
+
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  let length = 1;
+  while (length <= 8 && !(bytes[offset] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+const readChildren = (bytes: Uint8Array, start: number, end: number) => {
+  const elements: ParsedElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    elements.push({ id: id.value, start: offset, dataStart, size: size.value });
+    offset = dataStart + size.value;
+  }
+  return elements;
+};
+
+const readUint = (bytes: Uint8Array, element: ParsedElement) =>
+  Array.from(bytes.subarray(element.dataStart, element.dataStart + element.size)).reduce((acc, byte) => acc * 256 + byte, 0);
+
+describe("createWebmMuxer", () => {
+  it("writes clusters at keyframes and cues pointing at them", async () => {
+    const muxer = createWebmMuxer({ video: { codec: "vp09.00.10.08", width: 640, height: 360 } });
+    for (let i = 0; i < 90; i++) {
+      muxer.addVideoChunk(fakeChunk(i * 33_333, i % 30 === 0));
+    }
+    const bytes = await readBlob(muxer.finalize());
+
+    const [ebml, segment] = readChildren(bytes, 0, bytes.length);
+    expect(ebml.id).toBe(0x1a45dfa3);
+    expect(segment.id).toBe(0x18538067);
+    expect(segment.dataStart + segment.size).toBe(bytes.length);
+
+    const children = readChildren(bytes, segment.dataStart, bytes.length);
+    const clusters = children.filter((child) => child.id === 0x1f43b675);
+    expect(clusters).toHaveLength(3);
+
+    const cues = children.find((child) => child.id === 0x1c53bb6b)!;
+    const cuePositions = readChildren(bytes, cues.dataStart, cues.dataStart + cues.size).map((cuePoint) => {
+      const [, trackPositions] = readChildren(bytes, cuePoint.dataStart, cuePoint.dataStart + cuePoint.size);
+      const [, clusterPosition] = readChildren(bytes, trackPositions.dataStart, trackPositions.dataStart + trackPositions.size);
+      return readUint(bytes, clusterPosition);
+    });
+    expect(cuePositions).toEqual(clusters.map((cluster) => cluster.start - segment.dataStart));
+
+    // The SeekHead's last entry points at the Cues element
+    const seekHead = children[0];
+    const seeks = readChildren(bytes, seekHead.dataStart, seekHead.dataStart + seekHead.size);
+    const lastSeek = seeks[seeks.length - 1];
+    const [, seekPosition] = readChildren(bytes, lastSeek.dataStart, lastSeek.dataStart + lastSeek.size);
+    expect(readUint(bytes, seekPosition)).toBe(cues.start - segment.dataStart);
+  });
+
+  it("rejects codecs WebM can't carry", () => {
+    const muxer = createWebmMuxer({ video: { codec: "avc1.42001E", width: 320, height: 240 } });
+    muxer.addVideoChunk(fakeChunk(0, true));
+    expect(() => muxer.finalize()).toThrow(/WebM/);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { crc32, createZipWriter } from "@/lib/zip-writer";
+import { concat } from "@/lib/muxer-utils";
+
+const createMemorySink = () => {
+  const chunks: Uint8Array[] = [];
+  return {
+    sink: {
+      write: (chunk: Uint8Array) => {
+        chunks.push(chunk);
+      },
+      close: () => undefined,
+    },
+    bytes: () => concat(chunks),
+  };
+};
+
+const writeArchive = async (forceZip64: boolean) => {
+  const { sink, bytes } = createMemorySink();
+  const writer = createZipWriter(sink, { forceZip64 });
+  await Promise.all([
+    writer.addFile("frames/frame_00001.png", new Uint8Array([1, 2, 3])),
+    writer.addFile("frames/פריים.png", new Uint8Array([4, 5])),
+  ]);
+  await writer.close();
+  return JSZip.loadAsync(bytes());
+};
+
+describe("createZipWriter", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it.each([false, true])("writes an archive JSZip can read (zip64: %s)", async (forceZip64) => {
+    const zip = await writeArchive(forceZip64);
+    const first = await zip.file("frames/frame_00001.png")!.async("uint8array");
+    const second = await zip.file("frames/פריים.png")!.async("uint8array");
+    expect(Array.from(first)).toEqual([1, 2, 3]);
+    expect(Array.from(second)).toEqual([4, 5]);
+  });
+});
@@ -0,0 +1,48 @@
+import { extractFramesWithWebCodecs, type ExtractedFrame, type ExtractionSettings, type VideoInfo } from "@/lib/frame-extraction";
+
+export type FrameExtractorRequest =
+  | { type: "start"; file: File; videoInfo: VideoInfo; settings: ExtractionSettings }
+  | { type: "cancel" };
+
+export type FrameExtractorResponse =
+  | { type: "frame"; frame: ExtractedFrame; frameIndex: number }
+  | { type: "progress"; progress: number; currentFrame: number; totalFrames?: number }
+  | { type: "done" }
+  | { type: "error"; name: string; message: string };
+
+// The app's TS config targets the DOM lib, so describe the bits of the worker scope we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<FrameExtractorRequest>) => void) | null;
+  postMessage: (message: FrameExtractorResponse) => void;
+};
+
+let abortController: AbortController | null = null;
+
+const run = async (request: Extract<FrameExtractorRequest, { type: "start" }>) => {
+  abortController = new AbortController();
+  try {
+    await extractFramesWithWebCodecs(
+      request.file,
+      request.videoInfo,
+      request.settings,
+      (frame, frameIndex) => workerScope.postMessage({ type: "frame", frame, frameIndex }),
+      (progress, currentFrame, totalFrames) =>
+        workerScope.postMessage({ type: "progress", progress, currentFrame, totalFrames }),
+      abortController.signal
+    );
+    workerScope.postMessage({ type: "done" });
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    workerScope.postMessage({ type: "error", name: error.name, message: error.message });
+  } finally {
+    abortController = null;
+  }
+};
+
+workerScope.onmessage = (event) => {
+  if (event.data.type === "start") {
+    run(event.data);
+  } else if (event.data.type === "cancel") {
+    abortController?.abort();
+  }
+};